@@ -0,0 +1,237 @@
+import { basename, extname, join, resolve, sep } from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * What kind of body a response carries:
+ * - text: decoded and shown (or rendered, for HTML)
+ * - image: returned as MCP image content
+ * - pdf: text extracted from the document
+ * - binary: summarized, returned as base64 or saved to disk on request
+ */
+export type ContentKind = 'text' | 'image' | 'pdf' | 'binary';
+
+export interface DetectedContent {
+  kind: ContentKind;
+  mimeType: string;
+  sniffed: boolean;
+}
+
+interface Signature {
+  mimeType: string;
+  kind: ContentKind;
+  parts: Array<[offset: number, bytes: number[]]>;
+}
+
+const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+// Magic bytes checked before trusting Content-Type, which onion sites often get wrong
+const SIGNATURES: Signature[] = [
+  { mimeType: 'image/png', kind: 'image', parts: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]] },
+  { mimeType: 'image/jpeg', kind: 'image', parts: [[0, [0xff, 0xd8, 0xff]]] },
+  { mimeType: 'image/gif', kind: 'image', parts: [[0, ascii('GIF8')]] },
+  { mimeType: 'image/webp', kind: 'image', parts: [[0, ascii('RIFF')], [8, ascii('WEBP')]] },
+  { mimeType: 'application/pdf', kind: 'pdf', parts: [[0, ascii('%PDF-')]] },
+  { mimeType: 'application/zip', kind: 'binary', parts: [[0, [0x50, 0x4b, 0x03, 0x04]]] },
+  { mimeType: 'application/gzip', kind: 'binary', parts: [[0, [0x1f, 0x8b]]] },
+  { mimeType: 'application/x-7z-compressed', kind: 'binary', parts: [[0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]]] },
+  { mimeType: 'application/vnd.rar', kind: 'binary', parts: [[0, ascii('Rar!\u001a\u0007')]] },
+  { mimeType: 'application/x-xz', kind: 'binary', parts: [[0, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]]] },
+  { mimeType: 'application/x-executable', kind: 'binary', parts: [[0, [0x7f, 0x45, 0x4c, 0x46]]] },
+  { mimeType: 'application/ogg', kind: 'binary', parts: [[0, ascii('OggS')]] },
+  { mimeType: 'audio/mpeg', kind: 'binary', parts: [[0, ascii('ID3')]] },
+  { mimeType: 'video/mp4', kind: 'binary', parts: [[4, ascii('ftyp')]] },
+];
+
+const TEXT_TYPES = /^(text\/|application\/(json|xml|javascript|ecmascript|x-www-form-urlencoded|ld\+json|rss\+xml|atom\+xml|xhtml\+xml)|image\/svg\+xml)|\+(json|xml)$/i;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'application/gzip': '.gz',
+  'application/x-7z-compressed': '.7z',
+  'application/vnd.rar': '.rar',
+  'application/x-xz': '.xz',
+  'application/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'video/mp4': '.mp4',
+};
+
+// Longest saved filename parts, leaving room for a "-999" suffix within 255 bytes
+const MAX_STEM_BYTES = 200;
+const MAX_EXTENSION_BYTES = 16;
+
+/**
+ * Work out what a response body is from its magic bytes and Content-Type
+ */
+export function detectContent(data: Buffer, contentType: string | null): DetectedContent {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase() || '';
+
+  const signature = SIGNATURES.find(candidate =>
+    candidate.parts.every(([offset, bytes]) => bytes.every((byte, index) => data[offset + index] === byte))
+  );
+  if (signature) {
+    return { kind: signature.kind, mimeType: signature.mimeType, sniffed: signature.mimeType !== mimeType };
+  }
+
+  if (mimeType === 'application/pdf') {
+    return { kind: 'pdf', mimeType, sniffed: false };
+  }
+  if (TEXT_TYPES.test(mimeType)) {
+    return { kind: 'text', mimeType, sniffed: false };
+  }
+  if (/^(image|audio|video|font)\//.test(mimeType)) {
+    return { kind: 'binary', mimeType, sniffed: false };
+  }
+
+  // Missing, generic or unknown types: look at the bytes themselves
+  return looksLikeText(data)
+    ? { kind: 'text', mimeType: mimeType || 'text/plain', sniffed: !mimeType }
+    : { kind: 'binary', mimeType: mimeType || 'application/octet-stream', sniffed: !mimeType };
+}
+
+/**
+ * Decode a text body using the charset from Content-Type or an HTML <meta>, falling back to UTF-8
+ */
+export function decodeText(data: Buffer, contentType: string | null): string {
+  const declared = /charset=["']?([\w.:-]+)/i.exec(contentType ?? '')?.[1] ??
+    /<meta[^>]+charset=["']?([\w.:-]+)/i.exec(data.subarray(0, 2048).toString('latin1'))?.[1];
+
+  if (declared) {
+    try {
+      return new TextDecoder(declared).decode(data);
+    } catch {
+      // Unknown label; fall through to UTF-8
+    }
+  }
+  return new TextDecoder('utf-8').decode(data);
+}
+
+/**
+ * Save a download inside `directory`, never outside it and never over an existing file
+ */
+export async function saveDownload(directory: string, filename: string, data: Buffer): Promise<string> {
+  const root = resolve(directory);
+  await fs.mkdir(root, { recursive: true });
+
+  let safeName = basename(filename).replace(/[^\w.-]+/g, '_').replace(/^\.+/, '') || 'download';
+  // Names are ASCII by now, so characters are bytes; most filesystems allow 255
+  const extension = extname(safeName).slice(0, MAX_EXTENSION_BYTES);
+  const stem = safeName.slice(0, safeName.length - extname(safeName).length).slice(0, MAX_STEM_BYTES) || 'download';
+  safeName = `${stem}${extension}`;
+
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const candidate = join(root, attempt === 0 ? safeName : `${stem}-${attempt}${extension}`);
+    if (!candidate.startsWith(root + sep)) {
+      throw new Error(`Refusing to save outside the download directory: ${filename}`);
+    }
+
+    try {
+      await fs.writeFile(candidate, data, { flag: 'wx' });
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error(`Too many files named ${safeName} in the download directory`);
+}
+
+/**
+ * Pick a filename for a download from Content-Disposition or the URL
+ */
+export function suggestFilename(url: string, mimeType: string, contentDisposition: string | null): string {
+  let name = basename(filenameFromDisposition(contentDisposition ?? '') ?? new URL(url).pathname);
+
+  if (!name || name === '/') {
+    name = new URL(url).hostname.split('.')[0] || 'download';
+  }
+  if (!extname(name) && EXTENSIONS[mimeType]) {
+    name += EXTENSIONS[mimeType];
+  }
+  return name;
+}
+
+/**
+ * Read the filename from a Content-Disposition header, preferring `filename*` (RFC 6266 §4.3)
+ */
+function filenameFromDisposition(header: string): string | undefined {
+  const extended = /\bfilename\*\s*=\s*([^;\s]+)/i.exec(header)?.[1];
+  if (extended) {
+    // RFC 8187: charset'language'percent-encoded-value
+    const [, charset, encoded] = /^([^']*)'[^']*'(.*)$/.exec(extended) ?? [extended, 'utf-8', extended];
+    return decodePercentEncoded(encoded, charset || 'utf-8');
+  }
+
+  const match = /\bfilename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;\s]+))/i.exec(header);
+  const plain = match?.[1]?.replace(/\\(.)/g, '$1') ?? match?.[2];
+  return plain ? safeDecode(plain) : undefined;
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} bytes`;
+  }
+  const units = ['KiB', 'MiB', 'GiB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]} (${bytes} bytes)`;
+}
+
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, 8192);
+  if (sample.length === 0) {
+    return true;
+  }
+
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) {
+      return false;
+    }
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20)) {
+      control++;
+    }
+  }
+  return control / sample.length < 0.1;
+}
+
+function decodePercentEncoded(value: string, charset: string): string {
+  const bytes: number[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const hex = value.slice(index + 1, index + 3);
+    if (value[index] === '%' && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(...Buffer.from(value[index]));
+    }
+  }
+
+  try {
+    return new TextDecoder(charset).decode(Buffer.from(bytes));
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(Buffer.from(bytes));
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,161 @@
+import { z } from 'zod';
+
+/**
+ * Bridge and pluggable transport settings for the managed TOR daemon
+ */
+export interface BridgeConfig {
+  useBridges: boolean;
+  lines: string[];
+  transportPlugins: TransportPlugin[];
+}
+
+export interface TransportPlugin {
+  transports: string[];
+  path: string;
+  args?: string[];
+}
+
+export interface ParsedBridge {
+  transport: string;
+  address: string;
+  fingerprint?: string;
+  args: Record<string, string>;
+}
+
+// Arguments each known transport cannot work without
+const REQUIRED_ARGS: Record<string, string[]> = {
+  obfs4: ['cert', 'iat-mode'],
+  meek: ['url'],
+  meek_lite: ['url'],
+  webtunnel: ['url'],
+  snowflake: [],
+};
+
+export const VANILLA_TRANSPORT = 'vanilla';
+
+/**
+ * Parse a bridge line such as those from bridges.torproject.org
+ *
+ * Format: [Bridge] [transport] host:port [fingerprint] [key=value ...]
+ */
+export function parseBridgeLine(line: string): ParsedBridge {
+  const words = line.trim().split(/\s+/).filter(word => word.length > 0);
+  if (words[0]?.toLowerCase() === 'bridge') {
+    words.shift();
+  }
+
+  if (words.length === 0) {
+    throw new Error('Bridge line is empty');
+  }
+
+  let transport = VANILLA_TRANSPORT;
+  if (!isAddress(words[0])) {
+    transport = words.shift()!;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(transport)) {
+      throw new Error(`Invalid transport name "${transport}"`);
+    }
+  }
+
+  const address = words.shift();
+  if (!address || !isAddress(address)) {
+    throw new Error(`Expected host:port after transport, found "${address ?? ''}"`);
+  }
+
+  let fingerprint: string | undefined;
+  if (words[0] && /^\$?[0-9A-Fa-f]{40}$/.test(words[0])) {
+    fingerprint = words.shift()!.replace(/^\$/, '').toUpperCase();
+  }
+
+  const args: Record<string, string> = {};
+  for (const word of words) {
+    const separator = word.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Unexpected "${word}"; transport arguments must be key=value`);
+    }
+    args[word.slice(0, separator)] = word.slice(separator + 1);
+  }
+
+  if (transport === VANILLA_TRANSPORT && Object.keys(args).length > 0) {
+    throw new Error('Plain bridges do not take transport arguments');
+  }
+
+  const missing = (REQUIRED_ARGS[transport] ?? []).filter(key => !(key in args));
+  if (missing.length > 0) {
+    throw new Error(`${transport} bridge is missing ${missing.map(key => `${key}=`).join(', ')}`);
+  }
+
+  return { transport, address, fingerprint, args };
+}
+
+function isAddress(value: string): boolean {
+  const match = /^(\[[0-9A-Fa-f:.]+\]|[A-Za-z0-9.-]+):(\d{1,5})$/.exec(value);
+  return match !== null && Number(match[2]) > 0 && Number(match[2]) <= 65535;
+}
+
+const transportPluginSchema = z.object({
+  transports: z.array(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid transport name')).min(1),
+  path: z.string().min(1),
+  args: z.array(z.string()).optional(),
+}).strict();
+
+export const bridgeConfigSchema = z.object({
+  useBridges: z.boolean().default(true),
+  lines: z.array(z.string()).default([]),
+  transportPlugins: z.array(transportPluginSchema).default([]),
+}).strict().superRefine((config, context) => {
+  const supported = new Set(config.transportPlugins.flatMap(plugin => plugin.transports));
+
+  config.lines.forEach((line, index) => {
+    try {
+      const bridge = parseBridgeLine(line);
+      if (bridge.transport !== VANILLA_TRANSPORT && !supported.has(bridge.transport)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['lines', index],
+          message: `No transportPlugins entry provides the "${bridge.transport}" transport`,
+        });
+      }
+    } catch (error) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['lines', index],
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  if (config.useBridges && config.lines.length === 0) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['lines'],
+      message: 'useBridges is enabled but no bridge lines are configured',
+    });
+  }
+});
+
+/**
+ * Render bridge settings as torrc lines
+ */
+export function toBridgeTorrcLines(config: BridgeConfig): string[] {
+  if (!config.useBridges) {
+    return [];
+  }
+
+  const lines = ['UseBridges 1'];
+  for (const plugin of config.transportPlugins) {
+    const args = plugin.args && plugin.args.length > 0 ? ` ${plugin.args.join(' ')}` : '';
+    lines.push(`ClientTransportPlugin ${plugin.transports.join(',')} exec ${plugin.path}${args}`);
+  }
+  for (const line of config.lines) {
+    lines.push(`Bridge ${line.trim().replace(/^bridge\s+/i, '')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Find which configured bridge a relay fingerprint belongs to
+ */
+export function findBridge(bridges: ParsedBridge[], fingerprint: string): ParsedBridge | undefined {
+  return bridges.find(bridge => bridge.fingerprint === fingerprint.toUpperCase());
+}
@@ -0,0 +1,321 @@
+import { extname, join, resolve } from 'path';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { parse as parseYaml } from 'yaml';
+import { tmpdir } from 'os';
+import { z } from 'zod';
+
+import { CONNECTIVITY_STRATEGIES, DEFAULT_CHECK_ENDPOINTS, checkEndpointsSchema } from './connectivity.js';
+import { HEADER_PROFILE_NAMES } from './header-profiles.js';
+import { bridgeConfigSchema } from './bridges.js';
+import { nodePolicySchema } from './node-policy.js';
+import { onionLocationConfigSchema } from './onion-location.js';
+import { onionProbeConfigSchema } from './onion-probe.js';
+import { onionPublishingConfigSchema } from './onion-publisher.js';
+import { onionRegistryConfigSchema } from './onion-registry.js';
+import { outputModeSchema } from './structured-output.js';
+import { rateLimitSchema } from './scheduler.js';
+import { redirectPolicySchema } from './redirects.js';
+import { retryPolicySchema } from './retry.js';
+import { urlPolicySchema } from './url-policy.js';
+
+/**
+ * Configuration Loader
+ *
+ * Builds the server configuration from, in increasing order of precedence:
+ * - Built-in defaults
+ * - An optional JSON or YAML config file (--config or TOROLLAMA_CONFIG)
+ * - TOR_* / DEBUG environment variables
+ * - Command line flags
+ */
+
+const port = z.coerce.number().int().min(1).max(65535);
+
+export const serverConfigSchema = z.object({
+  socksPort: port.default(9050),
+  controlPort: port.default(9051),
+  torrcPath: z.string().min(1).optional(),
+  dataDirectory: z.string().min(1).default(join(tmpdir(), 'torollama-tor')),
+  circuitBuildTimeout: z.coerce.number().int().positive().default(60),
+  newCircuitPeriod: z.coerce.number().int().positive().default(30),
+  bootstrapTimeout: z.coerce.number().int().positive().default(60),
+  controlPassword: z.string().min(1).optional(),
+  cookieAuthFile: z.string().min(1).optional(),
+  connectivityStrategy: z.enum(CONNECTIVITY_STRATEGIES).default('auto'),
+  checkEndpoints: checkEndpointsSchema.default(DEFAULT_CHECK_ENDPOINTS),
+  checkCacheTtl: z.coerce.number().int().nonnegative().default(60),
+  checkTimeout: z.coerce.number().int().positive().default(10),
+  nodePolicy: nodePolicySchema.optional(),
+  bridges: bridgeConfigSchema.optional(),
+  redirects: redirectPolicySchema.default({}),
+  urlPolicy: urlPolicySchema.default({}),
+  headerProfile: z.enum(HEADER_PROFILE_NAMES).default('tor-browser'),
+  rateLimits: rateLimitSchema.default({}),
+  retry: retryPolicySchema.default({}),
+  responseStoreEntries: z.coerce.number().int().nonnegative().default(50),
+  responseStoreMaxBytes: z.coerce.number().int().nonnegative().default(16 * 1024 * 1024),
+  downloadDirectory: z.string().min(1).optional(),
+  cacheEntries: z.coerce.number().int().nonnegative().default(100),
+  cacheMaxBytes: z.coerce.number().int().nonnegative().default(32 * 1024 * 1024),
+  cacheDirectory: z.string().min(1).optional(),
+  cookieJar: z.boolean().default(false),
+  outputMode: outputModeSchema.default('both'),
+  onionRegistry: onionRegistryConfigSchema.default({}),
+  onionProbe: onionProbeConfigSchema.default({}),
+  onionLocation: onionLocationConfigSchema.default({}),
+  onionPublishing: onionPublishingConfigSchema.default({}),
+  debug: z.boolean().default(false),
+}).strict();
+
+export type ServerConfig = z.infer<typeof serverConfigSchema>;
+
+type ConfigSource = 'config file' | 'environment' | 'command line';
+
+type ConfigLayer = Record<string, unknown>;
+
+/**
+ * Raised when configuration cannot be loaded or fails validation
+ */
+export class ConfigError extends Error {
+  constructor(message: string, public readonly key?: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Environment variables and the config keys they map to
+ */
+const ENV_KEYS: Record<string, keyof ServerConfig> = {
+  TOR_SOCKS_PORT: 'socksPort',
+  TOR_CONTROL_PORT: 'controlPort',
+  TOR_TORRC_PATH: 'torrcPath',
+  TOR_DATA_DIR: 'dataDirectory',
+  TOR_CIRCUIT_BUILD_TIMEOUT: 'circuitBuildTimeout',
+  TOR_NEW_CIRCUIT_PERIOD: 'newCircuitPeriod',
+  TOR_BOOTSTRAP_TIMEOUT: 'bootstrapTimeout',
+  TOR_CONTROL_PASSWORD: 'controlPassword',
+  TOR_COOKIE_AUTH_FILE: 'cookieAuthFile',
+  TOR_CONNECTIVITY_STRATEGY: 'connectivityStrategy',
+  TOR_CHECK_ENDPOINTS: 'checkEndpoints',
+  TOR_CHECK_CACHE_TTL: 'checkCacheTtl',
+  TOR_CHECK_TIMEOUT: 'checkTimeout',
+  TOR_DOWNLOAD_DIR: 'downloadDirectory',
+  TOR_CACHE_ENTRIES: 'cacheEntries',
+  TOR_CACHE_DIR: 'cacheDirectory',
+  TOR_COOKIE_JAR: 'cookieJar',
+  TOR_HEADER_PROFILE: 'headerProfile',
+  TOR_OUTPUT_MODE: 'outputMode',
+  DEBUG: 'debug',
+};
+
+/**
+ * Command line flags and the config keys they map to
+ */
+const FLAG_KEYS: Record<string, keyof ServerConfig> = {
+  'socks-port': 'socksPort',
+  'control-port': 'controlPort',
+  'torrc': 'torrcPath',
+  'data-dir': 'dataDirectory',
+  'circuit-build-timeout': 'circuitBuildTimeout',
+  'new-circuit-period': 'newCircuitPeriod',
+  'bootstrap-timeout': 'bootstrapTimeout',
+  'cookie-auth-file': 'cookieAuthFile',
+  'connectivity-strategy': 'connectivityStrategy',
+  'check-endpoints': 'checkEndpoints',
+  'check-cache-ttl': 'checkCacheTtl',
+  'check-timeout': 'checkTimeout',
+  'download-dir': 'downloadDirectory',
+  'cache-entries': 'cacheEntries',
+  'cache-dir': 'cacheDirectory',
+  'cookie-jar': 'cookieJar',
+  'header-profile': 'headerProfile',
+  'output-mode': 'outputMode',
+  'debug': 'debug',
+};
+
+/**
+ * Load and validate the server configuration
+ */
+export async function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ServerConfig> {
+  const { configPath, flags } = parseFlags(argv);
+  const filePath = configPath ?? env.TOROLLAMA_CONFIG;
+
+  const layers: Array<[ConfigSource, ConfigLayer]> = [];
+  if (filePath) {
+    layers.push(['config file', await readConfigFile(filePath)]);
+  }
+  layers.push(['environment', fromEnvironment(env)]);
+  layers.push(['command line', flags]);
+
+  const merged: ConfigLayer = {};
+  const sources: Record<string, ConfigSource> = {};
+  for (const [source, layer] of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        merged[key] = value;
+        sources[key] = source;
+      }
+    }
+  }
+
+  const result = serverConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.code === 'unrecognized_keys' ? [...issue.path, issue.keys[0]] : issue.path;
+    const key = path.length > 0 ? path.join('.') : undefined;
+    const topKey = key?.split('.')[0];
+    const origin = topKey && sources[topKey] ? describeSource(sources[topKey], topKey, filePath) : undefined;
+
+    if (issue.code === 'unrecognized_keys') {
+      throw new ConfigError(`Unknown configuration key "${key}"${origin ? ` in ${origin}` : ''}`, key);
+    }
+
+    throw new ConfigError(
+      `Invalid configuration value for "${key ?? '(root)'}"${origin ? ` (from ${origin})` : ''}: ${issue.message}`,
+      key
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Name the exact variable, flag or file a config key was taken from
+ */
+function describeSource(source: ConfigSource, key: string, filePath?: string): string {
+  if (source === 'environment') {
+    const name = Object.keys(ENV_KEYS).find(envName => ENV_KEYS[envName] === key);
+    return name ? `environment variable ${name}` : source;
+  }
+  if (source === 'command line') {
+    const flag = Object.keys(FLAG_KEYS).find(flagName => FLAG_KEYS[flagName] === key);
+    return flag ? `command line flag --${flag}` : source;
+  }
+  return `config file ${filePath}`;
+}
+
+/**
+ * Parse command line flags into a config layer
+ */
+function parseFlags(argv: string[]): { configPath?: string; flags: ConfigLayer } {
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      strict: true,
+      allowPositionals: false,
+      options: {
+        'config': { type: 'string' },
+        'socks-port': { type: 'string' },
+        'control-port': { type: 'string' },
+        'torrc': { type: 'string' },
+        'data-dir': { type: 'string' },
+        'circuit-build-timeout': { type: 'string' },
+        'new-circuit-period': { type: 'string' },
+        'bootstrap-timeout': { type: 'string' },
+        'cookie-auth-file': { type: 'string' },
+        'connectivity-strategy': { type: 'string' },
+        'check-endpoints': { type: 'string' },
+        'check-cache-ttl': { type: 'string' },
+        'check-timeout': { type: 'string' },
+        'download-dir': { type: 'string' },
+        'cache-entries': { type: 'string' },
+        'cache-dir': { type: 'string' },
+        'cookie-jar': { type: 'boolean' },
+        'header-profile': { type: 'string' },
+        'output-mode': { type: 'string' },
+        'debug': { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Invalid command line: ${message}`);
+  }
+
+  const flags: ConfigLayer = {};
+  for (const [flag, key] of Object.entries(FLAG_KEYS)) {
+    flags[key] = parsed.values[flag];
+  }
+
+  const configPath = parsed.values.config;
+  return { configPath: typeof configPath === 'string' ? configPath : undefined, flags };
+}
+
+/**
+ * Read documented environment variables into a config layer
+ */
+function fromEnvironment(env: NodeJS.ProcessEnv): ConfigLayer {
+  const layer: ConfigLayer = {};
+
+  for (const [name, key] of Object.entries(ENV_KEYS)) {
+    const value = env[name];
+    if (value === undefined || value === '') {
+      continue;
+    }
+
+    if (key === 'debug') {
+      layer[key] = parseDebugFlag(value);
+    } else if (key === 'cookieJar') {
+      layer[key] = parseBoolean(value);
+    } else {
+      layer[key] = value;
+    }
+  }
+
+  return layer;
+}
+
+/**
+ * Interpret DEBUG, accepting both booleans and debug-module style namespaces
+ */
+function parseDebugFlag(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (parseBoolean(normalized) || normalized === '*') {
+    return true;
+  }
+  return normalized.split(',').some(namespace => namespace.startsWith('torollama'));
+}
+
+/**
+ * Interpret a boolean environment variable
+ */
+function parseBoolean(value: string): boolean {
+  return ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Read a JSON or YAML config file
+ */
+async function readConfigFile(path: string): Promise<ConfigLayer> {
+  const fullPath = resolve(path);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(fullPath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Unable to read config file ${fullPath}: ${message}`);
+  }
+
+  let data: unknown;
+  try {
+    const extension = extname(fullPath).toLowerCase();
+    data = extension === '.yaml' || extension === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Unable to parse config file ${fullPath}: ${message}`);
+  }
+
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new ConfigError(`Config file ${fullPath} must contain an object`);
+  }
+
+  return data as ConfigLayer;
+}
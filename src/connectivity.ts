@@ -0,0 +1,193 @@
+import type { Response } from 'node-fetch';
+import { z } from 'zod';
+
+/**
+ * How connectivity is verified:
+ * - control-port: trust TOR's own view (circuit established, SOCKS listener open)
+ * - endpoint: fetch a check endpoint through TOR, as TorOllama always did
+ * - auto: control port first, falling back to endpoints when it is unavailable
+ */
+export type ConnectivityStrategy = 'auto' | 'control-port' | 'endpoint';
+
+export const CONNECTIVITY_STRATEGIES = ['auto', 'control-port', 'endpoint'] as const;
+
+export const DEFAULT_CHECK_ENDPOINTS = ['https://check.torproject.org/api/ip'];
+
+export interface ConnectivityOptions {
+  strategy: ConnectivityStrategy;
+  endpoints: string[];
+  cacheTtl: number;
+  timeout: number;
+}
+
+/**
+ * Result of asking a check endpoint which IP our traffic exits from
+ */
+export interface ExitVerification {
+  verified: boolean;
+  ip?: string;
+  isTor?: boolean;
+  endpoint?: string;
+  error?: string;
+  checkedAt: Date;
+  cached: boolean;
+}
+
+export interface ConnectivityReport {
+  torUp: boolean;
+  method: 'control-port' | 'endpoint';
+  circuitEstablished: boolean;
+  socksListeners: string[];
+  exit?: ExitVerification;
+  errors: string[];
+}
+
+export interface ConnectivityProbes {
+  queryControl: (...keys: string[]) => Promise<Record<string, string>>;
+  fetchEndpoint: (url: string, timeoutMs: number) => Promise<Response>;
+}
+
+export const checkEndpointsSchema = z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(url => url.trim()).filter(url => url.length > 0) : value,
+  z.array(z.string().url()).min(1)
+);
+
+/**
+ * Connectivity Checker
+ *
+ * Answers two separate questions:
+ * - Is TOR up? Cheap, answered from the control port on every call
+ * - Which IP do we exit from, and is it a TOR exit? Costs a round-trip
+ *   through TOR, so results are cached for `cacheTtl` seconds and endpoints
+ *   are tried in order until one answers
+ */
+export class ConnectivityChecker {
+  private exitResult: ExitVerification | null = null;
+  private exitCheck: Promise<ExitVerification> | null = null;
+
+  constructor(private options: ConnectivityOptions, private probes: ConnectivityProbes) {}
+
+  /**
+   * Check connectivity, verifying the exit IP when asked or when the
+   * control port cannot answer
+   */
+  public async check(verifyExit = false, refresh = false): Promise<ConnectivityReport> {
+    const errors: string[] = [];
+
+    if (this.options.strategy !== 'endpoint') {
+      try {
+        const info = await this.probes.queryControl('status/circuit-established', 'net/listeners/socks');
+        const circuitEstablished = info['status/circuit-established']?.trim() === '1';
+        const socksListeners = (info['net/listeners/socks'] ?? '')
+          .split(' ')
+          .map(listener => listener.replace(/^"|"$/g, ''))
+          .filter(listener => listener.length > 0);
+
+        return {
+          torUp: circuitEstablished && socksListeners.length > 0,
+          method: 'control-port',
+          circuitEstablished,
+          socksListeners,
+          exit: verifyExit ? await this.verifyExit(refresh) : this.cachedExit(),
+          errors,
+        };
+      } catch (error) {
+        errors.push(`Control port: ${error instanceof Error ? error.message : String(error)}`);
+        if (this.options.strategy === 'control-port') {
+          return { torUp: false, method: 'control-port', circuitEstablished: false, socksListeners: [], errors };
+        }
+      }
+    }
+
+    const exit = await this.verifyExit(refresh);
+    if (exit.error) {
+      errors.push(exit.error);
+    }
+
+    return {
+      torUp: exit.verified,
+      method: 'endpoint',
+      circuitEstablished: exit.verified,
+      socksListeners: [],
+      exit,
+      errors,
+    };
+  }
+
+  /**
+   * Forget the cached exit result, e.g. after NEWNYM changed the exit
+   */
+  public invalidate(): void {
+    this.exitResult = null;
+  }
+
+  private cachedExit(): ExitVerification | undefined {
+    return this.exitResult ? { ...this.exitResult, cached: true } : undefined;
+  }
+
+  /**
+   * Verify the exit IP, reusing a result younger than the cache TTL
+   */
+  private async verifyExit(refresh: boolean): Promise<ExitVerification> {
+    const age = this.exitResult ? Date.now() - this.exitResult.checkedAt.getTime() : Infinity;
+    if (!refresh && age < this.options.cacheTtl * 1000) {
+      return { ...this.exitResult!, cached: true };
+    }
+
+    // Concurrent callers share one round-trip
+    this.exitCheck ??= this.queryEndpoints().finally(() => {
+      this.exitCheck = null;
+    });
+
+    this.exitResult = await this.exitCheck;
+    return { ...this.exitResult };
+  }
+
+  private async queryEndpoints(): Promise<ExitVerification> {
+    const failures: string[] = [];
+
+    for (const endpoint of this.options.endpoints) {
+      try {
+        const response = await this.probes.fetchEndpoint(endpoint, this.options.timeout * 1000);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const { ip, isTor } = parseCheckResponse(await response.text());
+        if (!ip) {
+          throw new Error('response did not contain an IP address');
+        }
+
+        // An endpoint that says "not TOR" is authoritative; don't look for a second opinion
+        return { verified: isTor !== false, ip, isTor, endpoint, checkedAt: new Date(), cached: false };
+      } catch (error) {
+        failures.push(`${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return {
+      verified: false,
+      error: `All check endpoints failed (${failures.join('; ')})`,
+      checkedAt: new Date(),
+      cached: false,
+    };
+  }
+}
+
+/**
+ * Read the exit IP from a check endpoint response
+ *
+ * Understands check.torproject.org's {"IsTor": true, "IP": "..."}, common
+ * {"ip": "..."} / {"origin": "..."} JSON, and plain-text IP bodies.
+ */
+export function parseCheckResponse(body: string): { ip?: string; isTor?: boolean } {
+  const text = body.trim();
+
+  try {
+    const data = JSON.parse(text) as Record<string, unknown>;
+    const ip = [data.IP, data.ip, data.origin].find((value): value is string => typeof value === 'string');
+    return { ip, isTor: typeof data.IsTor === 'boolean' ? data.IsTor : undefined };
+  } catch {
+    return /^[0-9A-Fa-f.:]+$/.test(text) && /[.:]/.test(text) ? { ip: text } : {};
+  }
+}
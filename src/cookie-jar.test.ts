@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+
+import { CookieJar } from './cookie-jar.js';
+import assert from 'assert/strict';
+
+const ONION = 'duckduckgogg42xjoc72x3sjasowoarfbgcmvfimaftt6twagswzczad.onion';
+
+/**
+ * A jar holding the cookies `url` set with `headers`
+ */
+function jarWith(url: string, ...headers: string[]): CookieJar {
+  const jar = new CookieJar();
+  jar.setCookies(headers, url);
+  return jar;
+}
+
+describe('CookieJar domain rules', () => {
+  it('keeps cookies without a Domain to the exact host', () => {
+    const jar = jarWith('https://www.example.com/', 'id=1');
+    assert.equal(jar.getCookieHeader('https://www.example.com/'), 'id=1');
+    assert.equal(jar.getCookieHeader('https://sub.www.example.com/'), null);
+    assert.equal(jar.getCookieHeader('https://example.com/'), null);
+  });
+
+  it('sends Domain cookies to the domain and its subdomains', () => {
+    const jar = jarWith('https://www.example.com/', 'id=1; Domain=.Example.com');
+    assert.equal(jar.getCookieHeader('https://example.com/'), 'id=1');
+    assert.equal(jar.getCookieHeader('https://a.b.example.com/'), 'id=1');
+    assert.equal(jar.getCookieHeader('https://notexample.com/'), null);
+  });
+
+  it('treats a Domain equal to the host as host-only', () => {
+    const jar = jarWith('https://example.com/', 'id=1; Domain=example.com');
+    assert.equal(jar.list()[0].hostOnly, true);
+    assert.equal(jar.getCookieHeader('https://www.example.com/'), null);
+  });
+
+  it('rejects a Domain that does not cover the host', () => {
+    const jar = new CookieJar();
+    assert.equal(jar.setCookies(['id=1; Domain=other.com', 'id=2; Domain=www.example.com'], 'https://example.com/'), 0);
+  });
+
+  it('rejects public suffixes as a Domain', () => {
+    const jar = new CookieJar();
+    assert.equal(jar.setCookies(['a=1; Domain=co.uk'], 'https://evil.co.uk/'), 0);
+    assert.equal(jar.setCookies(['b=1; Domain=github.io'], 'https://user.github.io/'), 0);
+    assert.equal(jar.setCookies(['c=1; Domain=com'], 'https://example.com/'), 0);
+    assert.equal(jar.setCookies(['d=1; Domain=onion'], `http://${ONION}/`), 0);
+  });
+
+  it('never domain-matches IP addresses', () => {
+    const jar = jarWith('http://10.0.0.1/', 'id=1; Domain=0.0.1');
+    assert.equal(jar.size, 0);
+  });
+});
+
+describe('CookieJar path rules', () => {
+  it('defaults the path to the request directory', () => {
+    const jar = jarWith('https://example.com/docs/page.html', 'id=1');
+    assert.equal(jar.list()[0].path, '/docs');
+    assert.equal(jar.getCookieHeader('https://example.com/docs'), 'id=1');
+    assert.equal(jar.getCookieHeader('https://example.com/docs/other'), 'id=1');
+    assert.equal(jar.getCookieHeader('https://example.com/docsearch'), null);
+    assert.equal(jar.getCookieHeader('https://example.com/'), null);
+  });
+
+  it('sends the most specific path first', () => {
+    const jar = jarWith('https://example.com/', 'a=1; Path=/', 'b=2; Path=/app');
+    assert.equal(jar.getCookieHeader('https://example.com/app/page'), 'b=2; a=1');
+  });
+
+  it('replaces a cookie with the same name, domain and path', () => {
+    const jar = jarWith('https://example.com/', 'id=1; Path=/', 'id=2; Path=/', 'id=3; Path=/app');
+    assert.equal(jar.size, 2);
+    assert.equal(jar.getCookieHeader('https://example.com/'), 'id=2');
+  });
+});
+
+describe('CookieJar expiry and security attributes', () => {
+  it('deletes a cookie when it is set again with a past expiry', () => {
+    const jar = jarWith('https://example.com/', 'id=1');
+    jar.setCookies(['id=; Max-Age=0'], 'https://example.com/');
+    assert.equal(jar.size, 0);
+  });
+
+  it('lets Max-Age win over Expires', () => {
+    const now = new Date('2026-10-05T12:00:00Z');
+    const jar = new CookieJar();
+    jar.setCookies(['id=1; Max-Age=60; Expires=Thu, 01 Jan 2026 00:00:00 GMT'], 'https://example.com/', now);
+    assert.equal(jar.getCookieHeader('https://example.com/', new Date(now.getTime() + 59 * 1000)), 'id=1');
+    assert.equal(jar.getCookieHeader('https://example.com/', new Date(now.getTime() + 61 * 1000)), null);
+  });
+
+  it('only accepts and sends Secure cookies over secure origins, onion services included', () => {
+    assert.equal(new CookieJar().setCookies(['id=1; Secure'], 'http://example.com/'), 0);
+
+    const jar = jarWith(`http://${ONION}/`, 'id=1; Secure');
+    assert.equal(jar.getCookieHeader(`http://${ONION}/`), 'id=1');
+
+    const https = jarWith('https://example.com/', 'id=1; Secure');
+    assert.equal(https.getCookieHeader('http://example.com/'), null);
+  });
+
+  it('enforces the __Secure- and __Host- prefixes', () => {
+    const jar = new CookieJar();
+    assert.equal(jar.setCookies(['__Secure-a=1'], 'https://example.com/'), 0);
+    assert.equal(jar.setCookies(['__Host-b=1; Secure; Path=/; Domain=example.com'], 'https://www.example.com/'), 0);
+    assert.equal(jar.setCookies(['__Host-c=1; Secure; Path=/app'], 'https://example.com/'), 0);
+    assert.equal(jar.setCookies(['__Host-d=1; Secure; Path=/'], 'https://example.com/'), 1);
+  });
+});
@@ -0,0 +1,260 @@
+import { isIP } from 'net';
+import { get as registrableDomain } from 'psl';
+
+import { isOnionHost } from './redirects.js';
+
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  expires?: Date;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: string;
+  createdAt: Date;
+  lastAccessed: Date;
+}
+
+// Caps that keep a hostile site from growing the jar without bound
+const MAX_COOKIES_PER_DOMAIN = 50;
+const MAX_COOKIES = 1000;
+const MAX_COOKIE_BYTES = 4096;
+
+/**
+ * Cookie Jar
+ *
+ * In-memory RFC 6265 cookie store for one identity: domain and path
+ * matching, Expires / Max-Age, Secure, and the __Secure- / __Host- name
+ * prefixes. Nothing is ever written to disk. Onion services count as
+ * secure origins over plain http, as they do in Tor Browser.
+ */
+export class CookieJar {
+  private cookies: Cookie[] = [];
+
+  /**
+   * Store the cookies from a response's Set-Cookie headers; returns how many were accepted
+   */
+  public setCookies(headers: string[], url: string, now = new Date()): number {
+    const requestUrl = new URL(url);
+    return headers.filter(header => this.setCookie(header, requestUrl, now)).length;
+  }
+
+  /**
+   * Build the Cookie header for a request, or null if no cookies apply
+   */
+  public getCookieHeader(url: string, now = new Date()): string | null {
+    const cookies = this.match(new URL(url), now);
+    cookies.forEach(cookie => {
+      cookie.lastAccessed = now;
+    });
+    return cookies.length > 0 ? cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : null;
+  }
+
+  /**
+   * Cookies that would be sent to `url`, most specific path first
+   */
+  public match(url: URL, now = new Date()): Cookie[] {
+    this.removeExpired(now);
+
+    const host = canonicalHost(url.hostname);
+    return this.cookies
+      .filter(cookie =>
+        (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain)) &&
+        pathMatches(url.pathname || '/', cookie.path) &&
+        (!cookie.secure || isSecureOrigin(url))
+      )
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * All unexpired cookies, optionally only those for a domain and its subdomains
+   */
+  public list(domain?: string, now = new Date()): Cookie[] {
+    this.removeExpired(now);
+    const filter = domain ? canonicalHost(domain) : undefined;
+    return this.cookies
+      .filter(cookie => !filter || domainMatches(cookie.domain, filter))
+      .map(cookie => ({ ...cookie }));
+  }
+
+  /**
+   * Remove cookies, optionally only those for a domain and its subdomains; returns how many were removed
+   */
+  public clear(domain?: string): number {
+    const before = this.cookies.length;
+    const filter = domain ? canonicalHost(domain) : undefined;
+    this.cookies = filter ? this.cookies.filter(cookie => !domainMatches(cookie.domain, filter)) : [];
+    return before - this.cookies.length;
+  }
+
+  public get size(): number {
+    return this.cookies.length;
+  }
+
+  /**
+   * Storage model from RFC 6265 §5.3
+   */
+  private setCookie(header: string, url: URL, now: Date): boolean {
+    if (header.length > MAX_COOKIE_BYTES) {
+      return false;
+    }
+
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      return false;
+    }
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (!name) {
+      return false;
+    }
+
+    const host = canonicalHost(url.hostname);
+    let domain = '';
+    let path: string | undefined;
+    let expires: Date | undefined;
+    let maxAge: number | undefined;
+    let secure = false;
+    let httpOnly = false;
+    let sameSite: string | undefined;
+
+    for (const attribute of attributes) {
+      const index = attribute.indexOf('=');
+      const key = (index === -1 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+      const attributeValue = index === -1 ? '' : attribute.slice(index + 1).trim();
+
+      switch (key) {
+        case 'expires': {
+          const time = Date.parse(attributeValue);
+          if (!Number.isNaN(time)) {
+            expires = new Date(time);
+          }
+          break;
+        }
+        case 'max-age':
+          if (/^-?\d+$/.test(attributeValue)) {
+            maxAge = Number(attributeValue);
+          }
+          break;
+        case 'domain':
+          domain = canonicalHost(attributeValue.replace(/^\./, ''));
+          break;
+        case 'path':
+          path = attributeValue.startsWith('/') ? attributeValue : undefined;
+          break;
+        case 'secure':
+          secure = true;
+          break;
+        case 'httponly':
+          httpOnly = true;
+          break;
+        case 'samesite':
+          sameSite = attributeValue.toLowerCase();
+          break;
+      }
+    }
+
+    // A domain cookie must cover the request host and may not be a public
+    // suffix such as "onion", "co.uk" or "github.io" (RFC 6265 §5.3 step 5)
+    if (domain === host) {
+      domain = '';
+    } else if (domain && (!domainMatches(host, domain) || registrableDomain(domain) === null)) {
+      return false;
+    }
+
+    if (secure && !isSecureOrigin(url)) {
+      return false;
+    }
+    if (name.startsWith('__Secure-') && !secure) {
+      return false;
+    }
+    if (name.startsWith('__Host-') && (!secure || domain || path !== '/')) {
+      return false;
+    }
+
+    const cookie: Cookie = {
+      name,
+      value,
+      domain: domain || host,
+      hostOnly: !domain,
+      path: path ?? defaultPath(url.pathname),
+      expires: maxAge !== undefined ? new Date(now.getTime() + maxAge * 1000) : expires,
+      secure,
+      httpOnly,
+      sameSite,
+      createdAt: now,
+      lastAccessed: now,
+    };
+
+    const existing = this.cookies.findIndex(candidate =>
+      candidate.name === cookie.name && candidate.domain === cookie.domain && candidate.path === cookie.path
+    );
+    if (existing !== -1) {
+      cookie.createdAt = this.cookies[existing].createdAt;
+      this.cookies.splice(existing, 1);
+    }
+
+    // An expiry in the past is how servers delete a cookie
+    if (cookie.expires && cookie.expires.getTime() <= now.getTime()) {
+      return existing !== -1;
+    }
+
+    this.cookies.push(cookie);
+    this.enforceLimits(cookie.domain);
+    return true;
+  }
+
+  private removeExpired(now: Date): void {
+    this.cookies = this.cookies.filter(cookie => !cookie.expires || cookie.expires.getTime() > now.getTime());
+  }
+
+  /**
+   * Evict the least recently used cookies once a domain or the jar is full
+   */
+  private enforceLimits(domain: string): void {
+    const byAccess = (a: Cookie, b: Cookie): number => a.lastAccessed.getTime() - b.lastAccessed.getTime();
+
+    const forDomain = this.cookies.filter(cookie => cookie.domain === domain).sort(byAccess);
+    const excess = new Set(forDomain.slice(0, Math.max(0, forDomain.length - MAX_COOKIES_PER_DOMAIN)));
+    this.cookies = this.cookies.filter(cookie => !excess.has(cookie));
+
+    if (this.cookies.length > MAX_COOKIES) {
+      const oldest = new Set([...this.cookies].sort(byAccess).slice(0, this.cookies.length - MAX_COOKIES));
+      this.cookies = this.cookies.filter(cookie => !oldest.has(cookie));
+    }
+  }
+}
+
+/**
+ * Domain matching from RFC 6265 §5.1.3
+ */
+export function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && isIP(host) === 0);
+}
+
+/**
+ * Path matching from RFC 6265 §5.1.4
+ */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath ||
+    (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+/**
+ * Default cookie path from RFC 6265 §5.1.4: the request path up to its last slash
+ */
+function defaultPath(requestPath: string): string {
+  const lastSlash = requestPath.lastIndexOf('/');
+  return !requestPath.startsWith('/') || lastSlash <= 0 ? '/' : requestPath.slice(0, lastSlash);
+}
+
+function isSecureOrigin(url: URL): boolean {
+  return url.protocol === 'https:' || isOnionHost(url.hostname);
+}
+
+function canonicalHost(host: string): string {
+  return host.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
@@ -0,0 +1,138 @@
+import type { ClientRequest, RequestOptions } from 'http';
+import { ExtendedSocksProxyAgent } from './socks.js';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+
+/**
+ * Request header profiles
+ *
+ * Each profile reproduces the headers current Tor Browser (15.x, based on
+ * Firefox ESR 140) sends, so requests blend in with every other Tor
+ * Browser user instead of announcing a bot:
+ * - tor-browser: a top-level page load
+ * - tor-browser-fetch: a script fetch(), for JSON APIs
+ *
+ * Accept-Encoding leaves out zstd, which Tor Browser offers but
+ * node-fetch cannot decode.
+ */
+export const HEADER_PROFILES = {
+  'tor-browser': [
+    ['User-Agent', 'Mozilla/5.0 (Windows NT 10.0; rv:140.0) Gecko/20100101 Firefox/140.0'],
+    ['Accept', 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'],
+    ['Accept-Language', 'en-US,en;q=0.5'],
+    ['Accept-Encoding', 'gzip, deflate, br'],
+    ['Upgrade-Insecure-Requests', '1'],
+    ['Sec-Fetch-Dest', 'document'],
+    ['Sec-Fetch-Mode', 'navigate'],
+    ['Sec-Fetch-Site', 'none'],
+    ['Sec-Fetch-User', '?1'],
+    ['Priority', 'u=0, i'],
+  ],
+  'tor-browser-fetch': [
+    ['User-Agent', 'Mozilla/5.0 (Windows NT 10.0; rv:140.0) Gecko/20100101 Firefox/140.0'],
+    ['Accept', '*/*'],
+    ['Accept-Language', 'en-US,en;q=0.5'],
+    ['Accept-Encoding', 'gzip, deflate, br'],
+    ['Sec-Fetch-Dest', 'empty'],
+    ['Sec-Fetch-Mode', 'cors'],
+    ['Sec-Fetch-Site', 'same-origin'],
+    ['Priority', 'u=4'],
+  ],
+} satisfies Record<string, Array<[string, string]>>;
+
+export type HeaderProfileName = keyof typeof HEADER_PROFILES;
+
+export const HEADER_PROFILE_NAMES = ['tor-browser', 'tor-browser-fetch'] as const;
+
+/**
+ * Headers that single out the client or its network when a caller adds them
+ */
+export const IDENTIFYING_HEADERS = new Set([
+  'user-agent', 'accept-language', 'from', 'via', 'forwarded', 'x-forwarded-for', 'x-forwarded-host',
+  'x-forwarded-proto', 'x-real-ip', 'x-client-ip', 'client-ip', 'true-client-ip', 'cf-connecting-ip', 'dnt',
+  'x-requested-with', 'x-correlation-id', 'x-request-id',
+]);
+
+// Firefox's HTTP/1.1 header order; anything else goes after these in the order it was given
+const HEADER_ORDER = [
+  'Host', 'User-Agent', 'Accept', 'Accept-Language', 'Accept-Encoding', 'Content-Type', 'Content-Length', 'Origin',
+  'Authorization', 'Connection', 'Referer', 'Cookie', 'Upgrade-Insecure-Requests', 'If-Modified-Since',
+  'If-None-Match', 'Range', 'Sec-Fetch-Dest', 'Sec-Fetch-Mode', 'Sec-Fetch-Site', 'Sec-Fetch-User', 'Priority',
+];
+
+export interface EffectiveHeaders {
+  headers: Array<[string, string]>;
+  stripped: string[];
+}
+
+/**
+ * Merge caller headers over a profile
+ *
+ * Identifying headers from the caller are dropped unless named in
+ * `allowHeaders`; everything else overrides the profile's value.
+ */
+export function applyHeaderProfile(
+  profile: HeaderProfileName,
+  headers: Array<[string, string]>,
+  allowHeaders: string[] = []
+): EffectiveHeaders {
+  const allowed = new Set(allowHeaders.map(name => name.toLowerCase()));
+  const merged = new Map<string, [string, string]>(
+    HEADER_PROFILES[profile].map(([name, value]) => [name.toLowerCase(), [name, value]])
+  );
+  const stripped: string[] = [];
+
+  for (const [name, value] of headers) {
+    const key = name.toLowerCase();
+    if ((IDENTIFYING_HEADERS.has(key) || key.startsWith('sec-ch-')) && !allowed.has(key)) {
+      stripped.push(name);
+      continue;
+    }
+    merged.set(key, [name, value]);
+  }
+
+  return { headers: orderHeaders([...merged.values()]), stripped };
+}
+
+/**
+ * Put headers in Firefox's order and casing
+ */
+export function orderHeaders(headers: Array<[string, string]>): Array<[string, string]> {
+  const rank = (name: string): number => {
+    const index = HEADER_ORDER.findIndex(known => known.toLowerCase() === name.toLowerCase());
+    return index === -1 ? HEADER_ORDER.length : index;
+  };
+
+  return headers
+    .map(([name, value], index) => ({ name: canonicalName(name), value, index }))
+    .sort((a, b) => rank(a.name) - rank(b.name) || a.index - b.index)
+    .map(({ name, value }) => [name, value]);
+}
+
+/**
+ * SOCKS agent that rewrites outgoing headers into Firefox's order and casing
+ *
+ * node-fetch sorts and lower-cases header names, which no browser does.
+ * Headers are still unsent when the agent is handed the request, so they
+ * can be removed and set again in the right order.
+ */
+export class OrderedSocksProxyAgent extends ExtendedSocksProxyAgent {
+  public addRequest(request: ClientRequest, options: RequestOptions): void {
+    const headers = request.getHeaderNames().map((name): [string, string] => [name, String(request.getHeader(name))]);
+    headers.forEach(([name]) => request.removeHeader(name));
+
+    // Node would otherwise append Connection after everything else
+    if (!headers.some(([name]) => name.toLowerCase() === 'connection')) {
+      headers.push(['Connection', 'close']);
+    }
+    orderHeaders(headers).forEach(([name, value]) => request.setHeader(name, value));
+
+    // http.Agent#addRequest exists at runtime but is missing from @types/node
+    (SocksProxyAgent.prototype as unknown as { addRequest: (request: ClientRequest, options: RequestOptions) => void })
+      .addRequest.call(this, request, options);
+  }
+}
+
+function canonicalName(name: string): string {
+  return HEADER_ORDER.find(known => known.toLowerCase() === name.toLowerCase()) ??
+    name.toLowerCase().replace(/(^|-)([a-z])/g, (_, separator: string, letter: string) => `${separator}${letter.toUpperCase()}`);
+}
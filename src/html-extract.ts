@@ -0,0 +1,287 @@
+import { HTMLElement, type Node, NodeType, parse } from 'node-html-parser';
+
+/**
+ * How tor_request presents a response body:
+ * - raw: the body as received
+ * - text: readable plain text of the main content
+ * - markdown: the main content as markdown
+ * - links: only the page's links and forms
+ */
+export type ResponseFormat = 'raw' | 'text' | 'markdown' | 'links';
+
+export const RESPONSE_FORMATS = ['raw', 'text', 'markdown', 'links'] as const;
+
+export interface PageLink {
+  index: number;
+  text: string;
+  url: string;
+}
+
+export interface PageForm {
+  index: number;
+  action: string;
+  method: string;
+  fields: string[];
+}
+
+export interface ExtractedPage {
+  title?: string;
+  content: string;
+  links: PageLink[];
+  forms: PageForm[];
+}
+
+// Elements whose content is never readable text
+const SKIPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'HEAD', 'IFRAME', 'OBJECT', 'CANVAS',
+  'SELECT', 'TEXTAREA', 'INPUT', 'BUTTON',
+]);
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BODY', 'DD', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE',
+  'FOOTER', 'FORM', 'HEADER', 'HTML', 'MAIN', 'NAV', 'OL', 'P', 'SECTION', 'TABLE', 'TBODY', 'THEAD',
+  'TFOOT', 'UL',
+]);
+
+// Stand-ins for list indentation and preformatted blocks so whitespace tidying leaves them alone
+const INDENT = '\u0001';
+const PRE_MARKER = '\u0000';
+
+interface RenderContext {
+  baseUrl: string;
+  markdown: boolean;
+  links: Map<string, PageLink>;
+  preBlocks: string[];
+}
+
+/**
+ * Check whether a response body should be treated as HTML
+ */
+export function isHtml(contentType: string | null, body: string): boolean {
+  if (contentType) {
+    return /\b(text\/html|application\/xhtml\+xml)\b/i.test(contentType);
+  }
+  return /^\s*(<!doctype html|<html[\s>])/i.test(body);
+}
+
+/**
+ * Turn an HTML document into readable content plus its links and forms
+ *
+ * Content comes from <main>, <article> or [role=main] when the page has
+ * one, otherwise from <body>. Links are resolved against `baseUrl` and
+ * numbered in order of first appearance; the content refers to them as [n].
+ */
+export function extractPage(html: string, baseUrl: string, markdown: boolean): ExtractedPage {
+  const root = parse(html, { comment: false });
+  const base = resolveUrl(root.querySelector('base')?.getAttribute('href'), baseUrl) ?? baseUrl;
+
+  const context: RenderContext = { baseUrl: base, markdown, links: new Map(), preBlocks: [] };
+  const main = root.querySelector('main') ?? root.querySelector('[role=main]') ?? root.querySelector('article');
+  const content = restorePreformatted(normalizeBlocks(renderChildren(main ?? root.querySelector('body') ?? root, context)), context);
+
+  // Links outside the main content are still worth listing
+  root.querySelectorAll('a[href]').forEach(anchor => registerLink(anchor, context));
+
+  const title = collapse(root.querySelector('title')?.text ?? '') || collapse(root.querySelector('h1')?.text ?? '');
+
+  const forms = root.querySelectorAll('form').map((form, index) => ({
+    index: index + 1,
+    action: resolveUrl(form.getAttribute('action'), base) ?? base,
+    method: (form.getAttribute('method') ?? 'GET').toUpperCase(),
+    fields: form.querySelectorAll('input, textarea, select, button')
+      .filter(field => field.getAttribute('type') !== 'hidden' || field.getAttribute('name'))
+      .map(describeField),
+  }));
+
+  return { title: title || undefined, content, links: [...context.links.values()], forms };
+}
+
+/**
+ * Render an extracted page in the requested format
+ */
+export function renderPage(page: ExtractedPage, format: Exclude<ResponseFormat, 'raw'>): string {
+  const sections: string[] = [];
+
+  if (page.title) {
+    sections.push(format === 'text' ? page.title : `# ${page.title}`);
+  }
+  if (format !== 'links' && page.content) {
+    sections.push(page.content);
+  }
+
+  const heading = (text: string): string => format === 'text' ? `${text}:` : `## ${text}`;
+
+  if (page.links.length > 0) {
+    sections.push(`${heading('Links')}\n${page.links.map(link => `[${link.index}] ${link.text || '(no text)'} - ${link.url}`).join('\n')}`);
+  }
+  if (page.forms.length > 0) {
+    sections.push(`${heading('Forms')}\n${page.forms.map(form =>
+      `Form ${form.index}: ${form.method} ${form.action}${form.fields.length > 0 ? ` (fields: ${form.fields.join(', ')})` : ''}`
+    ).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function renderChildren(element: HTMLElement, context: RenderContext): string {
+  return element.childNodes.map(child => renderNode(child, context)).join('');
+}
+
+function renderNode(node: Node, context: RenderContext): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text.replace(/\s+/g, ' ');
+  }
+  if (!(node instanceof HTMLElement)) {
+    return '';
+  }
+
+  const tag = node.tagName;
+  if (SKIPPED_TAGS.has(tag) || node.getAttribute('hidden') !== undefined || node.getAttribute('aria-hidden') === 'true') {
+    return '';
+  }
+
+  const { markdown } = context;
+
+  switch (tag) {
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+      const text = collapse(renderChildren(node, context));
+      return text ? block(markdown ? `${'#'.repeat(Number(tag[1]))} ${text}` : text) : '';
+    }
+
+    case 'BR':
+      return '\n';
+
+    case 'HR':
+      return block(markdown ? '---' : '');
+
+    case 'A': {
+      const text = renderChildren(node, context);
+      const link = registerLink(node, context);
+      return link ? `${text} [${link.index}]` : text;
+    }
+
+    case 'IMG': {
+      const alt = collapse(node.getAttribute('alt') ?? '');
+      return alt ? (markdown ? `![${alt}]` : `[image: ${alt}]`) : '';
+    }
+
+    case 'STRONG': case 'B':
+      return wrapInline(renderChildren(node, context), markdown ? '**' : '');
+
+    case 'EM': case 'I':
+      return wrapInline(renderChildren(node, context), markdown ? '*' : '');
+
+    case 'CODE':
+      return wrapInline(node.text, markdown ? '`' : '');
+
+    case 'PRE': {
+      const text = node.text.replace(/^\n|\s+$/g, '');
+      context.preBlocks.push(markdown ? `\`\`\`\n${text}\n\`\`\`` : text);
+      return block(`${PRE_MARKER}${context.preBlocks.length - 1}${PRE_MARKER}`);
+    }
+
+    case 'BLOCKQUOTE': {
+      const text = normalizeBlocks(renderChildren(node, context));
+      return block(markdown ? text.split('\n').map(line => `> ${line}`).join('\n') : text);
+    }
+
+    case 'UL': case 'OL': {
+      // Nested lists pick up their indentation from the item they sit in
+      const items = node.childNodes
+        .filter((child): child is HTMLElement => child instanceof HTMLElement && child.tagName === 'LI')
+        .map((item, index) => {
+          const marker = tag === 'OL' ? `${index + 1}.` : '-';
+          const text = normalizeBlocks(renderChildren(item, context)).replace(/\n+/g, `\n${INDENT}`);
+          return `${marker} ${text}`;
+        });
+      return block(items.join('\n'));
+    }
+
+    case 'TR': {
+      const cells = node.childNodes
+        .filter((child): child is HTMLElement => child instanceof HTMLElement && (child.tagName === 'TD' || child.tagName === 'TH'))
+        .map(cell => collapse(renderChildren(cell, context)));
+      if (!markdown) {
+        return `${cells.join(' | ')}\n`;
+      }
+
+      const isHeader = node.querySelectorAll('td').length === 0 && cells.length > 0;
+      return `| ${cells.join(' | ')} |\n${isHeader ? `|${' --- |'.repeat(cells.length)}\n` : ''}`;
+    }
+
+    default: {
+      const text = renderChildren(node, context);
+      return BLOCK_TAGS.has(tag) ? block(text) : text;
+    }
+  }
+}
+
+function registerLink(anchor: HTMLElement, context: RenderContext): PageLink | undefined {
+  const url = resolveUrl(anchor.getAttribute('href'), context.baseUrl);
+  if (!url) {
+    return undefined;
+  }
+
+  let link = context.links.get(url);
+  if (!link) {
+    link = { index: context.links.size + 1, text: collapse(anchor.text), url };
+    context.links.set(url, link);
+  }
+  return link;
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | undefined {
+  if (!href || /^\s*(javascript|data):/i.test(href) || href.trim().startsWith('#')) {
+    return undefined;
+  }
+
+  try {
+    return new URL(href.trim(), baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function describeField(field: HTMLElement): string {
+  const name = field.getAttribute('name') ?? field.getAttribute('id') ?? field.tagName.toLowerCase();
+  const type = field.tagName === 'INPUT' ? field.getAttribute('type') ?? 'text' : field.tagName.toLowerCase();
+  return `${name} (${type})`;
+}
+
+function block(text: string): string {
+  return `\n\n${text}\n\n`;
+}
+
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  // Keep surrounding spaces outside the markers so "**word**" stays valid markdown
+  return `${text.startsWith(' ') ? ' ' : ''}${marker}${trimmed}${marker}${text.endsWith(' ') ? ' ' : ''}`;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Tidy whitespace between blocks
+ */
+function normalizeBlocks(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Expand list indentation and put preformatted text back untouched
+ */
+function restorePreformatted(text: string, context: RenderContext): string {
+  return text
+    .replace(new RegExp(INDENT, 'g'), '  ')
+    .replace(new RegExp(`${PRE_MARKER}(\\d+)${PRE_MARKER}`, 'g'), (_, index: string) => context.preBlocks[Number(index)]);
+}
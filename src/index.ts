@@ -8,6 +8,8 @@ import {
   ListToolsRequestSchema,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
+import { type OutputMode, describeOutput } from "./structured-output.js";
+import { type ServerConfig, loadConfig } from "./config.js";
 import { TorNetworkClient } from "./tor-client.js";
 import { TorTools } from "./tor-tools.js";
 
@@ -24,8 +26,9 @@ class TorOllamaMcpServer {
   private server: Server;
   private torClient: TorNetworkClient;
   private torTools: TorTools;
+  private outputMode: OutputMode;
 
-  constructor() {
+  constructor(config: ServerConfig) {
     // Initialize MCP server
     this.server = new Server(
       {
@@ -40,8 +43,9 @@ class TorOllamaMcpServer {
     );
 
     // Initialize TOR client and tools
-    this.torClient = new TorNetworkClient();
-    this.torTools = new TorTools(this.torClient);
+    this.torClient = new TorNetworkClient(config);
+    this.torTools = new TorTools(this.torClient, config);
+    this.outputMode = config.outputMode;
 
     this.setupErrorHandling();
     this.setupToolHandlers();
@@ -86,7 +90,7 @@ class TorOllamaMcpServer {
                 },
                 headers: {
                   type: "object",
-                  description: "HTTP headers to include in the request",
+                  description: "HTTP headers to include in the request, merged over the header profile. Identifying headers are stripped unless listed in allowHeaders",
                   additionalProperties: { type: "string" },
                 },
                 body: {
@@ -98,16 +102,123 @@ class TorOllamaMcpServer {
                   default: 30000,
                   description: "Request timeout in milliseconds",
                 },
+                identity: {
+                  type: "string",
+                  description: "Isolation identity; requests with different identities never share a circuit",
+                },
+                maxRedirects: {
+                  type: "number",
+                  description: "Maximum redirects to follow before failing (default from server config, normally 5)",
+                },
+                allowOnionToClearnet: {
+                  type: "boolean",
+                  description: "Follow redirects from a .onion service to a clearnet host (refused by default)",
+                },
+                allowHttpsDowngrade: {
+                  type: "boolean",
+                  description: "Follow redirects from https to plain http on clearnet hosts (refused by default)",
+                },
+                format: {
+                  type: "string",
+                  enum: ["raw", "text", "markdown", "links"],
+                  default: "markdown",
+                  description: "How to present HTML responses: readable markdown or text with numbered links and forms, only the links and forms, or the raw body",
+                },
+                binary: {
+                  type: "string",
+                  enum: ["summary", "base64", "save"],
+                  default: "summary",
+                  description: "For binary responses (archives, PDFs, images, ...): report size and checksum only, return base64, or save to the configured download directory",
+                },
+                filename: {
+                  type: "string",
+                  description: "File name to save a binary response under (defaults to the name from Content-Disposition or the URL)",
+                },
+                cache: {
+                  type: "string",
+                  enum: ["use", "bypass", "only"],
+                  default: "use",
+                  description: "Response cache for GET requests: serve fresh copies and revalidate stale ones, always fetch (and store the result), or only answer from the cache without touching the network",
+                },
+                cookies: {
+                  type: "boolean",
+                  description: "Send and store cookies using the identity's cookie jar (default: the server's cookieJar setting, normally off)",
+                },
+                headerProfile: {
+                  type: "string",
+                  enum: ["tor-browser", "tor-browser-fetch"],
+                  description: "Browser headers to blend in with: a Tor Browser page load, or a Tor Browser script fetch for JSON APIs (default: the server's headerProfile, normally tor-browser)",
+                },
+                allowHeaders: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Identifying headers (User-Agent, Accept-Language, X-Forwarded-For, ...) from `headers` to send anyway instead of stripping them",
+                },
+                queueTimeout: {
+                  type: "number",
+                  description: "How long the request may wait for a free slot under the rate limits before giving up, in milliseconds (default: the server's queueTimeout)",
+                },
+                maxAttempts: {
+                  type: "number",
+                  description: "Attempts before giving up on retryable failures such as onion introduction failures and timeouts, each on a fresh circuit (1-10, default: the server's retry.maxAttempts, normally 3). Use 1 to disable retries",
+                },
+                onionUpgrade: {
+                  type: "boolean",
+                  description: "Send the request to the site's onion service if it advertised one with Onion-Location earlier, falling back to the URL if that fails (default: the server's onionLocation.autoUpgrade, normally false)",
+                },
               },
               required: ["url"],
             },
           },
+          {
+            name: "read_tor_response",
+            description: "Read a page of a previous tor_request response, or search within it, without fetching it again",
+            inputSchema: {
+              type: "object",
+              properties: {
+                responseId: {
+                  type: "string",
+                  description: "Response ID reported by tor_request",
+                },
+                offset: {
+                  type: "number",
+                  default: 0,
+                  description: "Character offset to start reading at",
+                },
+                length: {
+                  type: "number",
+                  default: 4000,
+                  description: "Number of characters to return (max 20000)",
+                },
+                page: {
+                  type: "number",
+                  description: "Page number of size `length`, starting at 1 (overrides offset)",
+                },
+                search: {
+                  type: "string",
+                  description: "Case-insensitive text to find; returns matching offsets with context instead of a page",
+                },
+                format: {
+                  type: "string",
+                  enum: ["raw", "text", "markdown", "links"],
+                  description: "View to read (defaults to the format used by the original request)",
+                },
+              },
+              required: ["responseId"],
+            },
+          },
           {
             name: "check_tor_connection",
             description: "Verify TOR connection and check current IP address",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                refresh: {
+                  type: "boolean",
+                  default: false,
+                  description: "Re-verify the exit IP instead of using a recently cached result",
+                },
+              },
             },
           },
           {
@@ -118,9 +229,17 @@ class TorOllamaMcpServer {
               properties: {},
             },
           },
+          {
+            name: "get_tor_bootstrap",
+            description: "Get TOR bootstrap progress, current phase and any bootstrap warnings",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
           {
             name: "new_tor_circuit",
-            description: "Request a new TOR circuit for fresh anonymity",
+            description: "Request a new TOR circuit for fresh anonymity. TOR acts on at most one request every 10 seconds; more frequent calls are refused with a retry time",
             inputSchema: {
               type: "object",
               properties: {
@@ -131,26 +250,407 @@ class TorOllamaMcpServer {
               },
             },
           },
+          {
+            name: "list_tor_circuits",
+            description: "List current TOR circuits with their state, purpose, hops and build time",
+            inputSchema: {
+              type: "object",
+              properties: {
+                status: {
+                  type: "string",
+                  description: "Only show circuits in this state (e.g. BUILT, EXTENDED, FAILED)",
+                },
+                purpose: {
+                  type: "string",
+                  description: "Only show circuits with this purpose (e.g. GENERAL, HS_CLIENT_REND)",
+                },
+              },
+            },
+          },
+          {
+            name: "close_tor_circuit",
+            description: "Close a specific TOR circuit by ID, e.g. one stuck on a hanging .onion request",
+            inputSchema: {
+              type: "object",
+              properties: {
+                circuitId: {
+                  type: "string",
+                  description: "ID of the circuit to close (from list_tor_circuits)",
+                },
+                ifUnused: {
+                  type: "boolean",
+                  default: false,
+                  description: "Only close the circuit if no streams are attached to it",
+                },
+              },
+              required: ["circuitId"],
+            },
+          },
+          {
+            name: "set_exit_policy",
+            description: "Restrict which countries or relays TOR uses for exits and entries, or exclude jurisdictions entirely",
+            inputSchema: {
+              type: "object",
+              properties: {
+                exitNodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Preferred exit countries (ISO codes like 'de') or relay fingerprints; empty list clears",
+                },
+                entryNodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Preferred entry (guard) countries or relay fingerprints; empty list clears",
+                },
+                excludeNodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Countries or relays never to use in any position; empty list clears",
+                },
+                excludeExitNodes: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Countries or relays never to use as exits; empty list clears",
+                },
+                strictNodes: {
+                  type: "boolean",
+                  description: "Fail rather than fall back to relays outside the policy",
+                },
+                newCircuit: {
+                  type: "boolean",
+                  default: true,
+                  description: "Request new circuits so the policy applies immediately",
+                },
+              },
+            },
+          },
+          {
+            name: "list_tor_identities",
+            description: "List stream isolation identities used with tor_request",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "reset_tor_identity",
+            description: "Move one identity onto fresh circuits (or remove it) without affecting other identities",
+            inputSchema: {
+              type: "object",
+              properties: {
+                identity: {
+                  type: "string",
+                  description: "Name of the identity to reset",
+                },
+                remove: {
+                  type: "boolean",
+                  default: false,
+                  description: "Forget the identity entirely instead of renewing it",
+                },
+              },
+              required: ["identity"],
+            },
+          },
+          {
+            name: "clear_tor_cache",
+            description: "Clear cached responses for one identity, the shared identity, or all identities",
+            inputSchema: {
+              type: "object",
+              properties: {
+                identity: {
+                  type: "string",
+                  description: "Only clear responses cached for this identity (default: all identities)",
+                },
+                shared: {
+                  type: "boolean",
+                  default: false,
+                  description: "Only clear responses cached for requests made without an identity",
+                },
+              },
+            },
+          },
+          {
+            name: "list_tor_cookies",
+            description: "List cookies stored in the per-identity cookie jars",
+            inputSchema: {
+              type: "object",
+              properties: {
+                identity: {
+                  type: "string",
+                  description: "Only list cookies for this identity (default: all identities)",
+                },
+                shared: {
+                  type: "boolean",
+                  default: false,
+                  description: "Only list cookies stored for requests made without an identity",
+                },
+                domain: {
+                  type: "string",
+                  description: "Only list cookies for this domain and its subdomains",
+                },
+              },
+            },
+          },
+          {
+            name: "clear_tor_cookies",
+            description: "Clear stored cookies for one identity, the shared identity, or all identities",
+            inputSchema: {
+              type: "object",
+              properties: {
+                identity: {
+                  type: "string",
+                  description: "Only clear cookies for this identity (default: all identities)",
+                },
+                shared: {
+                  type: "boolean",
+                  default: false,
+                  description: "Only clear cookies stored for requests made without an identity",
+                },
+                domain: {
+                  type: "string",
+                  description: "Only clear cookies for this domain and its subdomains",
+                },
+              },
+            },
+          },
+          {
+            name: "validate_onion_address",
+            description: "Check that a .onion address or URL is a well-formed version 3 onion address (checksum, version and key) and normalize it, without contacting it. Flags dead v2 addresses and lookalikes of known services",
+            inputSchema: {
+              type: "object",
+              properties: {
+                address: {
+                  type: "string",
+                  description: "Onion address, hostname or URL to check",
+                },
+              },
+              required: ["address"],
+            },
+          },
           {
             name: "search_onion_services",
-            description: "Search for .onion hidden services by category or keyword",
+            description: "Search the onion service registry (bundled list, configured registry files and services you added). Results are ranked and tolerate typos; filter by category",
             inputSchema: {
               type: "object",
               properties: {
                 query: {
                   type: "string",
-                  description: "Search query or category (e.g., 'search engines', 'social media', etc.)",
+                  description: "Search words matched against names, tags, categories, descriptions and addresses; empty lists every service",
+                },
+                category: {
+                  type: "string",
+                  description: "Only return services in this category",
                 },
                 limit: {
                   type: "number",
                   default: 10,
                   description: "Maximum number of results to return",
                 },
+                includeUnreachable: {
+                  type: "boolean",
+                  default: false,
+                  description: "Include services that have not answered a probe for weeks",
+                },
               },
               required: ["query"],
             },
           },
-        ],
+          {
+            name: "probe_onion_services",
+            description: "Check registered onion services through TOR now and record whether they answer, their latency, HTTP status and TLS certificate. The results show up as health in search_onion_services",
+            inputSchema: {
+              type: "object",
+              properties: {
+                addresses: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Onion addresses or URLs of registered services (default: every registered service)",
+                },
+                category: {
+                  type: "string",
+                  description: "Only probe services in this category",
+                },
+                timeout: {
+                  type: "number",
+                  description: "Timeout per probe in milliseconds (default: onionProbe.timeout, 60 seconds)",
+                },
+              },
+            },
+          },
+          {
+            name: "add_onion_service",
+            description: "Add an onion service to the registry. The entry is saved to the data directory and included in searches",
+            inputSchema: {
+              type: "object",
+              properties: {
+                name: {
+                  type: "string",
+                  description: "Service name",
+                },
+                url: {
+                  type: "string",
+                  description: "Service URL; must be a valid version 3 onion address",
+                },
+                description: {
+                  type: "string",
+                  description: "What the service is",
+                },
+                category: {
+                  type: "string",
+                  description: "Category, e.g. 'news' or 'search'",
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Keywords matched by search_onion_services",
+                },
+                verified: {
+                  type: "boolean",
+                  description: "Whether the address was confirmed with the operator (default: false)",
+                },
+                signature: {
+                  type: "string",
+                  description: "Signature published with the address, e.g. a PGP-signed onion.txt",
+                },
+                fingerprint: {
+                  type: "string",
+                  description: "Fingerprint of the key that signed the address",
+                },
+                source: {
+                  type: "string",
+                  description: "Where the address came from (default: user)",
+                },
+              },
+              required: ["name", "url", "category"],
+            },
+          },
+          {
+            name: "update_onion_service",
+            description: "Change fields of a registered onion service. Changes to bundled entries are saved as your own copy",
+            inputSchema: {
+              type: "object",
+              properties: {
+                address: {
+                  type: "string",
+                  description: "Onion address or URL of the registered service",
+                },
+                name: {
+                  type: "string",
+                  description: "Service name",
+                },
+                url: {
+                  type: "string",
+                  description: "New service URL; must be a valid version 3 onion address",
+                },
+                description: {
+                  type: "string",
+                  description: "What the service is",
+                },
+                category: {
+                  type: "string",
+                  description: "Category, e.g. 'news' or 'search'",
+                },
+                tags: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Keywords matched by search_onion_services",
+                },
+                verified: {
+                  type: "boolean",
+                  description: "Whether the address was confirmed with the operator (default: false)",
+                },
+                signature: {
+                  type: "string",
+                  description: "Signature published with the address, e.g. a PGP-signed onion.txt",
+                },
+                fingerprint: {
+                  type: "string",
+                  description: "Fingerprint of the key that signed the address",
+                },
+              },
+              required: ["address"],
+            },
+          },
+          {
+            name: "remove_onion_service",
+            description: "Remove an onion service from the registry. Bundled entries are hidden rather than deleted",
+            inputSchema: {
+              type: "object",
+              properties: {
+                address: {
+                  type: "string",
+                  description: "Onion address or URL of the registered service",
+                },
+              },
+              required: ["address"],
+            },
+          },
+          {
+            name: "publish_onion_service",
+            description: "Publish a local port as a version 3 onion service through the TOR control port (ADD_ONION). The address is ephemeral unless keyName is given, and can require client authorization",
+            inputSchema: {
+              type: "object",
+              properties: {
+                targetPort: {
+                  type: "number",
+                  description: "Local port to expose",
+                },
+                targetHost: {
+                  type: "string",
+                  default: "127.0.0.1",
+                  description: "Host the port is on; must be listed in onionPublishing.allowedTargets",
+                },
+                virtualPort: {
+                  type: "number",
+                  default: 80,
+                  description: "Port clients connect to on the onion address",
+                },
+                keyName: {
+                  type: "string",
+                  description: "Save the service key under this name in the data directory and reuse it, so the address stays the same across restarts",
+                },
+                clientKeys: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "x25519 public keys (base32) of clients allowed to connect; only they can reach the service",
+                },
+                generateClientKeys: {
+                  type: "number",
+                  default: 0,
+                  description: "Generate this many client key pairs and return their private keys, to hand out to colleagues",
+                },
+              },
+              required: ["targetPort"],
+            },
+          },
+          {
+            name: "list_published_onion_services",
+            description: "List the onion services published with publish_onion_service that TOR is running",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "unpublish_onion_service",
+            description: "Take an onion service published by this server offline (DEL_ONION)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                address: {
+                  type: "string",
+                  description: "Onion address or URL of the published service",
+                },
+                deleteKey: {
+                  type: "boolean",
+                  default: false,
+                  description: "Also delete the saved key of a service published with keyName, retiring its address for good",
+                },
+              },
+              required: ["address"],
+            },
+          },
+        ].map(tool => describeOutput(tool, this.outputMode)),
       };
     });
 
@@ -163,18 +663,72 @@ class TorOllamaMcpServer {
           case "tor_request":
             return await this.torTools.makeRequest(args);
 
+          case "read_tor_response":
+            return this.torTools.readResponse(args);
+
           case "check_tor_connection":
-            return await this.torTools.checkConnection();
+            return await this.torTools.checkConnection(args);
 
           case "get_tor_status":
-            return await this.torTools.getStatus();
+            return await this.torTools.getStatus(args);
+
+          case "get_tor_bootstrap":
+            return await this.torTools.getBootstrap(args);
 
           case "new_tor_circuit":
             return await this.torTools.newCircuit(args);
 
+          case "list_tor_circuits":
+            return await this.torTools.listCircuits(args);
+
+          case "close_tor_circuit":
+            return await this.torTools.closeCircuit(args);
+
+          case "set_exit_policy":
+            return await this.torTools.setExitPolicy(args);
+
+          case "list_tor_identities":
+            return this.torTools.listIdentities(args);
+
+          case "reset_tor_identity":
+            return await this.torTools.resetIdentity(args);
+
+          case "clear_tor_cache":
+            return await this.torTools.clearCache(args);
+
+          case "list_tor_cookies":
+            return this.torTools.listCookies(args);
+
+          case "clear_tor_cookies":
+            return this.torTools.clearCookies(args);
+
+          case "validate_onion_address":
+            return await this.torTools.validateOnionAddress(args);
+
           case "search_onion_services":
             return await this.torTools.searchOnionServices(args);
 
+          case "probe_onion_services":
+            return await this.torTools.probeOnionServices(args);
+
+          case "add_onion_service":
+            return await this.torTools.addOnionService(args);
+
+          case "update_onion_service":
+            return await this.torTools.updateOnionService(args);
+
+          case "remove_onion_service":
+            return await this.torTools.removeOnionService(args);
+
+          case "publish_onion_service":
+            return await this.torTools.publishOnionService(args);
+
+          case "list_published_onion_services":
+            return await this.torTools.listPublishedOnionServices(args);
+
+          case "unpublish_onion_service":
+            return await this.torTools.unpublishOnionService(args);
+
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -198,6 +752,7 @@ class TorOllamaMcpServer {
 
   private async cleanup(): Promise<void> {
     try {
+      this.torTools.stopOnionProbes();
       await this.torClient.cleanup();
       console.log("[TorOllama] Cleanup completed");
     } catch (error) {
@@ -208,6 +763,7 @@ class TorOllamaMcpServer {
   public async start(): Promise<void> {
     // Initialize TOR client
     await this.torClient.initialize();
+    this.torTools.startOnionProbes();
 
     // Create transport and connect
     const transport = new StdioServerTransport();
@@ -221,7 +777,8 @@ class TorOllamaMcpServer {
 // Start the server
 async function main(): Promise<void> {
   try {
-    const mcpServer = new TorOllamaMcpServer();
+    const config = await loadConfig();
+    const mcpServer = new TorOllamaMcpServer(config);
     await mcpServer.start();
   } catch (error) {
     console.error("[TorOllama] Failed to start server:", error);
@@ -0,0 +1,127 @@
+import { quote } from './tor-control.js';
+import { z } from 'zod';
+
+/**
+ * Relay selection policy: which countries or relays Tor may use for each
+ * position of a circuit. Entries are ISO 3166-1 alpha-2 country codes
+ * ("de" or "{de}") or relay fingerprints ("$ABCD..." or 40 hex digits).
+ */
+export interface NodePolicy {
+  exitNodes?: string[];
+  entryNodes?: string[];
+  excludeNodes?: string[];
+  excludeExitNodes?: string[];
+  strictNodes?: boolean;
+}
+
+/**
+ * Policy the managed TOR daemon has always used when none is configured
+ */
+export const DEFAULT_NODE_POLICY: NodePolicy = {
+  exitNodes: ['{us}', '{ca}', '{gb}', '{de}', '{fr}', '{nl}', '{se}', '{no}', '{dk}'],
+  strictNodes: false,
+};
+
+// ISO 3166-1 alpha-2 codes, plus "??" which Tor uses for relays with unknown location
+const COUNTRY_CODES = new Set((
+  'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt ' +
+  'bv bw by bz ca cc cd cf cg ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh ' +
+  'er es et fi fj fk fm fo fr ga gb gd ge gf gg gh gi gl gm gn gp gq gr gs gt gu gw gy hk hm hn hr ht ' +
+  'hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn kp kr kw ky kz la lb lc li lk lr ls ' +
+  'lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni ' +
+  'nl no np nr nu nz om pa pe pf pg ph pk pl pm pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg ' +
+  'sh si sj sk sl sm sn so sr ss st sv sx sy sz tc td tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug ' +
+  'um us uy uz va vc ve vg vi vn vu wf ws ye yt za zm zw ??'
+).split(' '));
+
+/**
+ * Normalize a country code or relay fingerprint into torrc syntax
+ */
+export function normalizeNodeSpec(value: string): string | null {
+  const trimmed = value.trim();
+
+  const country = /^\{?([A-Za-z?]{2})\}?$/.exec(trimmed);
+  if (country) {
+    const code = country[1].toLowerCase();
+    return COUNTRY_CODES.has(code) ? `{${code}}` : null;
+  }
+
+  const fingerprint = /^\$?([0-9A-Fa-f]{40})$/.exec(trimmed);
+  if (fingerprint) {
+    return `$${fingerprint[1].toUpperCase()}`;
+  }
+
+  return null;
+}
+
+const nodeSpecSchema = z.string().transform((value, context) => {
+  const normalized = normalizeNodeSpec(value);
+  if (!normalized) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `"${value}" is not a valid country code or relay fingerprint`,
+    });
+    return z.NEVER;
+  }
+  return normalized;
+});
+
+export const nodePolicySchema = z.object({
+  exitNodes: z.array(nodeSpecSchema).optional(),
+  entryNodes: z.array(nodeSpecSchema).optional(),
+  excludeNodes: z.array(nodeSpecSchema).optional(),
+  excludeExitNodes: z.array(nodeSpecSchema).optional(),
+  strictNodes: z.boolean().optional(),
+}).strict();
+
+const TORRC_KEYS: Record<keyof NodePolicy, string> = {
+  exitNodes: 'ExitNodes',
+  entryNodes: 'EntryNodes',
+  excludeNodes: 'ExcludeNodes',
+  excludeExitNodes: 'ExcludeExitNodes',
+  strictNodes: 'StrictNodes',
+};
+
+/**
+ * Convert a policy into Tor option values; an empty value means "reset to default"
+ */
+export function toTorOptions(policy: NodePolicy): Array<[string, string]> {
+  return (Object.keys(TORRC_KEYS) as Array<keyof NodePolicy>)
+    .filter(key => policy[key] !== undefined)
+    .map(key => {
+      const value = policy[key];
+      return [TORRC_KEYS[key], Array.isArray(value) ? value.join(',') : value ? '1' : '0'];
+    });
+}
+
+/**
+ * Render a policy as torrc lines
+ */
+export function toTorrcLines(policy: NodePolicy): string[] {
+  return toTorOptions(policy)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key} ${value}`);
+}
+
+/**
+ * Render a policy as a SETCONF command
+ */
+export function toSetConfCommand(policy: NodePolicy): string | null {
+  const options = toTorOptions(policy);
+  if (options.length === 0) {
+    return null;
+  }
+
+  return `SETCONF ${options.map(([key, value]) => value === '' ? key : `${key}=${quote(value)}`).join(' ')}`;
+}
+
+/**
+ * Describe a policy in one line for status output
+ */
+export function describeNodePolicy(policy: NodePolicy): string {
+  const parts = toTorOptions(policy)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key} ${value}`);
+
+  return parts.length > 0 ? parts.join('; ') : 'TOR defaults (no restrictions)';
+}
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import { createHash } from 'crypto';
+
+import { OnionAddressError, type OnionAddressProblem, checkOnionHost, parseOnionAddress } from './onion-address.js';
+import assert from 'assert/strict';
+
+const DUCKDUCKGO = 'duckduckgogg42xjoc72x3sjasowoarfbgcmvfimaftt6twagswzczad';
+
+/**
+ * Build an address for `publicKey` with a correct checksum, so the later checks can be reached
+ */
+function encode(publicKey: Buffer, version = 3): string {
+  const checksum = createHash('sha3-256')
+    .update('.onion checksum')
+    .update(publicKey)
+    .update(Buffer.from([version]))
+    .digest()
+    .subarray(0, 2);
+
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+  let address = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of Buffer.concat([publicKey, checksum, Buffer.from([version])])) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      address += alphabet[(buffer >> bits) & 31];
+    }
+  }
+  return address;
+}
+
+function problemOf(input: string): OnionAddressProblem {
+  try {
+    parseOnionAddress(input);
+  } catch (error) {
+    assert.ok(error instanceof OnionAddressError);
+    return error.problem;
+  }
+  assert.fail(`${input} was accepted`);
+}
+
+describe('parseOnionAddress', () => {
+  it('accepts a valid version 3 address', () => {
+    const parsed = parseOnionAddress(`${DUCKDUCKGO}.onion`);
+    assert.equal(parsed.address, DUCKDUCKGO);
+    assert.equal(parsed.hostname, `${DUCKDUCKGO}.onion`);
+    assert.equal(parsed.version, 3);
+    assert.equal(parsed.publicKey.length, 32);
+    assert.equal(parsed.subdomain, undefined);
+  });
+
+  it('accepts URLs, subdomains and any case', () => {
+    const parsed = parseOnionAddress(`HTTPS://www.${DUCKDUCKGO.toUpperCase()}.ONION:8443/search?q=tor`);
+    assert.equal(parsed.address, DUCKDUCKGO);
+    assert.equal(parsed.subdomain, 'www');
+    assert.equal(parseOnionAddress(`${DUCKDUCKGO}.onion/path`).address, DUCKDUCKGO);
+  });
+
+  it('rejects hosts outside .onion', () => {
+    assert.equal(problemOf('https://example.com/'), 'not-onion');
+  });
+
+  it('explains that version 2 addresses are gone', () => {
+    assert.equal(problemOf('expyuzz4wqqyqhjn.onion'), 'v2-address');
+  });
+
+  it('rejects addresses of the wrong length', () => {
+    assert.equal(problemOf(`${DUCKDUCKGO.slice(1)}.onion`), 'length');
+  });
+
+  it('rejects characters outside the base32 alphabet', () => {
+    assert.equal(problemOf(`${DUCKDUCKGO.slice(0, -1)}1.onion`), 'base32');
+  });
+
+  it('rejects version bytes other than 3', () => {
+    const publicKey = parseOnionAddress(`${DUCKDUCKGO}.onion`).publicKey;
+    assert.equal(problemOf(`${encode(publicKey, 4)}.onion`), 'version');
+  });
+
+  it('catches a single mistyped character through the checksum', () => {
+    const typo = `${DUCKDUCKGO.slice(0, 10)}a${DUCKDUCKGO.slice(11)}`;
+    assert.equal(problemOf(`${typo}.onion`), 'checksum');
+  });
+
+  it('rejects keys that are not points on the ed25519 curve', () => {
+    const publicKey = Buffer.alloc(32);
+    publicKey[0] = 2;
+    assert.equal(problemOf(`${encode(publicKey)}.onion`), 'public-key');
+  });
+});
+
+describe('checkOnionHost', () => {
+  it('only checks .onion hosts', () => {
+    assert.doesNotThrow(() => checkOnionHost('example.com'));
+    assert.doesNotThrow(() => checkOnionHost(`${DUCKDUCKGO}.onion`));
+    assert.throws(() => checkOnionHost('expyuzz4wqqyqhjn.onion'), OnionAddressError);
+  });
+});
@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { isOnionHost } from './redirects.js';
+
+/**
+ * Why an onion address was rejected:
+ * - not-onion: the host does not end in .onion
+ * - v2-address: a 16-character version 2 address; Tor dropped support for these in 2021
+ * - length: not 56 characters, so not a version 3 address either
+ * - base32: characters outside the base32 alphabet (a-z, 2-7)
+ * - version: the version byte is not 3
+ * - checksum: the checksum does not match the key, usually a typo
+ * - public-key: the key is not a valid ed25519 point
+ */
+export type OnionAddressProblem = 'not-onion' | 'v2-address' | 'length' | 'base32' | 'version' | 'checksum' | 'public-key';
+
+/**
+ * A parsed version 3 onion address (rend-spec-v3 §6)
+ */
+export interface OnionAddress {
+  // The 56-character address, without subdomains or ".onion"
+  address: string;
+  hostname: string;
+  subdomain?: string;
+  version: 3;
+  publicKey: Buffer;
+  checksum: string;
+}
+
+/**
+ * Raised when a .onion host is not a valid version 3 onion address
+ */
+export class OnionAddressError extends Error {
+  constructor(message: string, public readonly host: string, public readonly problem: OnionAddressProblem) {
+    super(message);
+    this.name = 'OnionAddressError';
+  }
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const CHECKSUM_PREFIX = Buffer.from('.onion checksum');
+const VERSION = 3;
+
+// Curve25519 field prime and the twisted Edwards curve constant d = -121665/121666
+const P = 2n ** 255n - 19n;
+const D = mod(-121665n * modPow(121666n, P - 2n));
+
+/**
+ * Parse and verify a version 3 onion address
+ *
+ * Accepts a bare address, a hostname with subdomains or a full URL, in any
+ * case. Everything Tor would check locally is checked here, so typos are
+ * caught before any traffic is sent; whether the service exists is not.
+ */
+export function parseOnionAddress(input: string): OnionAddress {
+  const host = hostnameOf(input);
+  if (!isOnionHost(host)) {
+    throw new OnionAddressError(`${host} is not a .onion address`, host, 'not-onion');
+  }
+
+  const labels = host.replace(/\.$/, '').split('.').slice(0, -1);
+  const address = labels[labels.length - 1] ?? '';
+  const subdomain = labels.length > 1 ? labels.slice(0, -1).join('.') : undefined;
+
+  if (address.length === 16) {
+    throw new OnionAddressError(
+      `${address}.onion is a version 2 onion address; Tor no longer supports these. Ask the operator for its version 3 address`,
+      host,
+      'v2-address'
+    );
+  }
+  if (address.length !== 56) {
+    throw new OnionAddressError(
+      `${address}.onion has ${address.length} characters; version 3 onion addresses have 56`,
+      host,
+      'length'
+    );
+  }
+
+  const decoded = base32Decode(address);
+  if (!decoded) {
+    throw new OnionAddressError(`${address}.onion contains characters outside the base32 alphabet (a-z, 2-7)`, host, 'base32');
+  }
+
+  const publicKey = decoded.subarray(0, 32);
+  const checksum = decoded.subarray(32, 34);
+  const version = decoded[34];
+
+  if (version !== VERSION) {
+    throw new OnionAddressError(`${address}.onion has version byte ${version}; only version 3 exists`, host, 'version');
+  }
+  if (!onionChecksum(publicKey, version).equals(checksum)) {
+    throw new OnionAddressError(`${address}.onion has an invalid checksum; the address is mistyped or altered`, host, 'checksum');
+  }
+  if (!isEd25519Point(publicKey)) {
+    throw new OnionAddressError(`${address}.onion does not encode a valid ed25519 public key`, host, 'public-key');
+  }
+
+  return {
+    address,
+    hostname: `${address}.onion`,
+    subdomain,
+    version: VERSION,
+    publicKey: Buffer.from(publicKey),
+    checksum: checksum.toString('hex'),
+  };
+}
+
+/**
+ * Throw an OnionAddressError if `host` is a .onion host that is not a valid v3 address
+ */
+export function checkOnionHost(host: string): void {
+  if (isOnionHost(host)) {
+    parseOnionAddress(host);
+  }
+}
+
+function hostnameOf(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+  if (/^[a-z][a-z0-9+.-]*:\/\//.test(trimmed)) {
+    try {
+      return new URL(trimmed).hostname;
+    } catch {
+      return trimmed;
+    }
+  }
+  return trimmed.split(/[/:?#]/)[0];
+}
+
+/**
+ * SHA3-256(".onion checksum" | pubkey | version), truncated to two bytes
+ */
+function onionChecksum(publicKey: Buffer, version: number): Buffer {
+  return createHash('sha3-256')
+    .update(CHECKSUM_PREFIX)
+    .update(publicKey)
+    .update(Buffer.from([version]))
+    .digest()
+    .subarray(0, 2);
+}
+
+/**
+ * Decode unpadded lowercase base32 (RFC 4648), or return null on a bad character
+ */
+function base32Decode(text: string): Buffer | null {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      return null;
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Whether 32 bytes decode to a point on the ed25519 curve (RFC 8032 §5.1.3)
+ */
+function isEd25519Point(key: Buffer): boolean {
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) | BigInt(i === 31 ? key[i] & 0x7f : key[i]);
+  }
+  const sign = key[31] >> 7;
+  if (y >= P) {
+    return false;
+  }
+
+  // x² = (y² - 1) / (d·y² + 1) must have a square root
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - 1n) * modPow(mod(D * y2 + 1n), P - 2n));
+  if (x2 === 0n) {
+    return sign === 0;
+  }
+  return modPow(x2, (P - 1n) / 2n) === 1n;
+}
+
+function mod(value: bigint): bigint {
+  const result = value % P;
+  return result < 0n ? result + P : result;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = mod(result * b);
+    }
+    b = mod(b * b);
+    e >>= 1n;
+  }
+  return result;
+}
@@ -0,0 +1,122 @@
+import { isOnionHost } from './redirects.js';
+import { parse } from 'node-html-parser';
+import { parseOnionAddress } from './onion-address.js';
+import { z } from 'zod';
+
+export type OnionLocationConfig = z.infer<typeof onionLocationConfigSchema>;
+
+export const onionLocationConfigSchema = z.object({
+  autoUpgrade: z.boolean().default(false),
+  fallback: z.boolean().default(true),
+  register: z.boolean().default(true),
+}).strict();
+
+/**
+ * An onion alternative advertised by a clearnet page
+ */
+export interface OnionLocation {
+  // The advertised onion URL, as given
+  url: string;
+  // Origin of the https page that advertised it
+  origin: string;
+  onionOrigin: string;
+  source: 'header' | 'meta';
+}
+
+/**
+ * A request sent to a site's onion alternative instead of the URL asked for
+ *
+ * `fellBack` is set when the onion request failed and the original URL
+ * was requested after all.
+ */
+export interface OnionUpgrade {
+  from: string;
+  to: string;
+  fellBack?: boolean;
+  failure?: string;
+}
+
+// The meta tag belongs in <head>; there is no need to parse whole pages for it
+const META_SCAN_CHARS = 64 * 1024;
+
+/**
+ * Find the onion alternative a page advertises, the way Tor Browser does
+ *
+ * The `Onion-Location` header wins over `<meta http-equiv="onion-location">`.
+ * Only https pages on clearnet hosts are believed, since the page's
+ * certificate is what vouches for the onion address. The target must be
+ * an http or https URL on a valid version 3 onion address.
+ */
+export function findOnionLocation(pageUrl: string, header: string | null, html?: string): OnionLocation | null {
+  const page = new URL(pageUrl);
+  if (page.protocol !== 'https:' || isOnionHost(page.hostname)) {
+    return null;
+  }
+
+  if (header) {
+    return toOnionLocation(page, header, 'header');
+  }
+  const meta = html ? readMetaOnionLocation(html) : null;
+  return meta ? toOnionLocation(page, meta, 'meta') : null;
+}
+
+/**
+ * Clearnet origins and the onion origins they advertised
+ *
+ * Later discoveries replace earlier ones for the same origin. Mappings
+ * last as long as the server runs; discovered services are kept in the
+ * onion registry instead.
+ */
+export class OnionLocationMap {
+  private origins = new Map<string, { onionOrigin: string; discoveredAt: Date }>();
+
+  /**
+   * Remember a discovery; returns false if the origin already mapped to this onion
+   */
+  public record(location: OnionLocation): boolean {
+    const known = this.origins.get(location.origin);
+    this.origins.set(location.origin, { onionOrigin: location.onionOrigin, discoveredAt: new Date() });
+    return known?.onionOrigin !== location.onionOrigin;
+  }
+
+  /**
+   * The same URL on the origin's onion alternative, or null if none is known
+   */
+  public upgrade(url: string): string | null {
+    const target = new URL(url);
+    const mapped = this.origins.get(target.origin);
+    return mapped ? `${mapped.onionOrigin}${target.pathname}${target.search}${target.hash}` : null;
+  }
+
+  public list(): Array<{ origin: string; onionOrigin: string; discoveredAt: Date }> {
+    return [...this.origins].map(([origin, entry]) => ({ origin, ...entry }));
+  }
+}
+
+function toOnionLocation(page: URL, value: string, source: OnionLocation['source']): OnionLocation | null {
+  let target: URL;
+  try {
+    target = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return null;
+  }
+
+  try {
+    parseOnionAddress(target.hostname);
+  } catch {
+    return null;
+  }
+
+  return { url: target.href, origin: page.origin, onionOrigin: target.origin, source };
+}
+
+function readMetaOnionLocation(html: string): string | null {
+  const root = parse(html.slice(0, META_SCAN_CHARS));
+  const meta = root.querySelectorAll('meta').find(element =>
+    element.getAttribute('http-equiv')?.trim().toLowerCase() === 'onion-location'
+  );
+  return meta?.getAttribute('content') ?? null;
+}
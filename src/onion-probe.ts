@@ -0,0 +1,307 @@
+import { type FailureKind, classifyRequestError } from './retry.js';
+import type { OnionRegistry, OnionService } from './onion-registry.js';
+import type { TlsInfo, TorNetworkClient } from './tor-client.js';
+import { dirname } from 'path';
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+
+export type OnionProbeConfig = z.infer<typeof onionProbeConfigSchema>;
+
+export const onionProbeConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  interval: z.number().int().min(300).default(6 * 60 * 60),
+  concurrency: z.number().int().min(1).max(8).default(2),
+  timeout: z.number().int().positive().default(60),
+  attempts: z.number().int().min(1).max(5).default(2),
+  unreachableAfterDays: z.number().positive().default(14),
+  healthFile: z.string().min(1).optional(),
+}).strict();
+
+/**
+ * Latest known health of a registered service
+ *
+ * `lastSeen` is the last time the service answered at all; `downSince`
+ * is the first failed probe after that, and is cleared by the next
+ * answer. Any HTTP response counts as an answer, whatever its status.
+ */
+export interface ServiceHealth {
+  url: string;
+  up: boolean;
+  checkedAt: string;
+  lastSeen?: string;
+  downSince?: string;
+  failures: number;
+  latency?: number;
+  httpStatus?: number;
+  failure?: { kind: FailureKind; cause: string };
+  tls?: TlsInfo;
+}
+
+/**
+ * How a service is doing:
+ * - up: answered its last probe
+ * - down: failed its recent probes
+ * - unreachable: has not answered for `unreachableAfterDays`
+ * - unknown: never probed
+ */
+export type HealthState = 'up' | 'down' | 'unreachable' | 'unknown';
+
+/**
+ * Result of probing one service; `skipped` means nothing was learned about
+ * the service itself (TOR unavailable, policy or rate limit), so its
+ * recorded health was left alone
+ */
+export interface ProbeOutcome {
+  service: OnionService;
+  state: HealthState;
+  health?: ServiceHealth;
+  skipped?: string;
+}
+
+// Failures that say something about the local TOR, not the service
+const LOCAL_FAILURES = new Set<FailureKind>(['proxy-unreachable', 'proxy-handshake', 'socks-unsupported']);
+
+// Probes get their own isolation identity, apart from the model's requests;
+// the name is reserved, so tools can neither use nor list it
+export const PROBE_IDENTITY = 'onion-probe';
+
+// Wait after startup before the first periodic pass, and never less than this between passes
+const MIN_PASS_DELAY_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const healthSchema = z.object({
+  url: z.string(),
+  up: z.boolean(),
+  checkedAt: z.string().datetime(),
+  lastSeen: z.string().datetime().optional(),
+  downSince: z.string().datetime().optional(),
+  failures: z.number().int().nonnegative(),
+  latency: z.number().nonnegative().optional(),
+  httpStatus: z.number().int().optional(),
+  failure: z.object({ kind: z.string(), cause: z.string() }).optional(),
+  tls: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Onion Service Prober
+ *
+ * Checks registered services through TOR, a few at a time, and keeps the
+ * latest health of each in the health file so it survives restarts. With
+ * `enabled`, a background pass re-probes every service whose last check
+ * is older than `interval`.
+ */
+export class OnionProber {
+  private health = new Map<string, ServiceHealth>();
+  private loading: Promise<void> | null = null;
+  private runs: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private client: TorNetworkClient,
+    private registry: OnionRegistry,
+    private config: OnionProbeConfig
+  ) {}
+
+  public get unreachableAfterDays(): number {
+    return this.config.unreachableAfterDays;
+  }
+
+  /**
+   * Start periodic probing, if enabled
+   */
+  public start(): void {
+    if (this.config.enabled && !this.timer) {
+      this.schedule(MIN_PASS_DELAY_MS);
+    }
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Probe services now, `concurrency` at a time, and record the results
+   *
+   * Runs wait for any run already in progress, whether from a tool or the
+   * background pass, so their results and writes never interleave.
+   */
+  public probe(services: OnionService[], timeout = this.config.timeout * 1000): Promise<ProbeOutcome[]> {
+    return this.serialize(() => this.run(services, timeout));
+  }
+
+  /**
+   * Recorded health of a service, by its address
+   */
+  public async get(address: string): Promise<{ state: HealthState; health?: ServiceHealth }> {
+    await this.load();
+    const health = this.health.get(address);
+    return { state: this.stateOf(health), health };
+  }
+
+  private serialize<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.runs.then(run);
+    this.runs = result.catch(() => undefined);
+    return result;
+  }
+
+  private async run(services: OnionService[], timeout: number): Promise<ProbeOutcome[]> {
+    await this.load();
+
+    const outcomes: ProbeOutcome[] = [];
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < services.length) {
+        const index = next++;
+        outcomes[index] = await this.probeOne(services[index], timeout);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.config.concurrency, services.length) }, worker));
+
+    await this.save();
+    return outcomes;
+  }
+
+  private async probeOne(service: OnionService, timeout: number): Promise<ProbeOutcome> {
+    const previous = this.health.get(service.address);
+    const now = new Date().toISOString();
+    let failure: ServiceHealth['failure'];
+
+    for (let attempt = 1; attempt <= this.config.attempts; attempt++) {
+      try {
+        const result = await this.client.probe(service.url, { timeout, identity: PROBE_IDENTITY });
+        const health: ServiceHealth = {
+          url: service.url,
+          up: true,
+          checkedAt: now,
+          lastSeen: now,
+          failures: 0,
+          latency: result.latency,
+          httpStatus: result.status,
+          tls: result.tls,
+        };
+        this.health.set(service.address, health);
+        return { service, state: 'up', health };
+      } catch (error) {
+        const classified = classifyRequestError(error);
+        if (!classified || LOCAL_FAILURES.has(classified.kind)) {
+          return { service, state: this.stateOf(previous), health: previous, skipped: classified?.cause ?? (error instanceof Error ? error.message : String(error)) };
+        }
+        failure = { kind: classified.kind, cause: classified.cause };
+        if (!classified.retryable) {
+          break;
+        }
+      }
+    }
+
+    const health: ServiceHealth = {
+      url: service.url,
+      up: false,
+      checkedAt: now,
+      lastSeen: previous?.lastSeen,
+      downSince: previous?.up === false ? previous.downSince ?? now : now,
+      failures: (previous?.up === false ? previous.failures : 0) + 1,
+      failure,
+      tls: previous?.tls,
+    };
+    this.health.set(service.address, health);
+    return { service, state: this.stateOf(health), health };
+  }
+
+  private stateOf(health: ServiceHealth | undefined): HealthState {
+    if (!health) {
+      return 'unknown';
+    }
+    if (health.up) {
+      return 'up';
+    }
+    const since = Date.parse(health.lastSeen ?? health.downSince ?? health.checkedAt);
+    return Date.now() - since >= this.config.unreachableAfterDays * DAY_MS ? 'unreachable' : 'down';
+  }
+
+  /**
+   * Run the next background pass after `delay` ms
+   */
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => void this.runPass(), delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Probe every service whose last check is older than the interval, then
+   * wait until the next one falls due
+   */
+  private async runPass(): Promise<void> {
+    const interval = this.config.interval * 1000;
+    try {
+      // Pick the due services inside the run, so ones a tool just probed are skipped
+      await this.serialize(async () => {
+        await this.load();
+        const due = (await this.registry.list()).filter(service => {
+          const checkedAt = this.health.get(service.address)?.checkedAt;
+          return !checkedAt || Date.now() - Date.parse(checkedAt) >= interval;
+        });
+        if (due.length > 0) {
+          const outcomes = await this.run(due, this.config.timeout * 1000);
+          const up = outcomes.filter(outcome => outcome.state === 'up').length;
+          console.error(`[OnionProber] Probed ${outcomes.length} services, ${up} up`);
+        }
+      });
+    } catch (error) {
+      console.error(`[OnionProber] Probe pass failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (this.timer) {
+      const checked = [...this.health.values()].map(health => Date.parse(health.checkedAt) + interval - Date.now());
+      this.schedule(Math.max(MIN_PASS_DELAY_MS, Math.min(interval, ...checked)));
+    }
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.readHealthFile();
+    return this.loading;
+  }
+
+  private async readHealthFile(): Promise<void> {
+    const path = this.config.healthFile;
+    if (!path) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(path, 'utf8')) as { services?: Record<string, unknown> };
+      for (const [address, candidate] of Object.entries(data.services ?? {})) {
+        const parsed = healthSchema.safeParse(candidate);
+        if (parsed.success) {
+          this.health.set(address, parsed.data as ServiceHealth);
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[OnionProber] Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Write the health file atomically
+   */
+  private async save(): Promise<void> {
+    const path = this.config.healthFile;
+    if (!path) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+      const temporary = `${path}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, `${JSON.stringify({ services: Object.fromEntries(this.health) }, null, 2)}\n`, { mode: 0o600 });
+      await fs.rename(temporary, path);
+    } catch (error) {
+      console.error(`[OnionProber] Could not write ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,346 @@
+import { type ControlReply, TorControlError, parseKeyValues } from './tor-control.js';
+import { dirname, join } from 'path';
+import { promises as fs } from 'fs';
+import { generateKeyPairSync } from 'crypto';
+import { parseOnionAddress } from './onion-address.js';
+import { z } from 'zod';
+
+export type OnionPublishingConfig = z.infer<typeof onionPublishingConfigSchema>;
+
+export const onionPublishingConfigSchema = z.object({
+  allowedTargets: z.array(z.string().min(1)).min(1).default(['127.0.0.1', '::1', 'localhost']),
+  maxServices: z.number().int().min(1).max(64).default(8),
+  keyDirectory: z.string().min(1).optional(),
+}).strict();
+
+/**
+ * An onion service published through ADD_ONION
+ *
+ * Services with a `keyName` keep their address across restarts: the key is
+ * saved in the key directory and reused whenever that name is published
+ * again. All others get a fresh address whose key is never seen.
+ */
+export interface PublishedOnionService {
+  serviceId: string;
+  url: string;
+  virtualPort: number;
+  target: string;
+  keyName?: string;
+  authorizedClients: number;
+  publishedAt: Date;
+}
+
+/**
+ * A client authorization key pair generated for a service
+ *
+ * `authFileLine` is what the client puts in a `.auth_private` file in its
+ * ClientOnionAuthDir; Tor Browser asks for `privateKey` instead.
+ */
+export interface ClientKey {
+  publicKey: string;
+  privateKey: string;
+  authFileLine: string;
+}
+
+export interface PublishOptions {
+  targetPort: number;
+  targetHost?: string;
+  virtualPort?: number;
+  keyName?: string;
+  clientKeys?: string[];
+  generateClientKeys?: number;
+}
+
+/**
+ * Raised when a service cannot be published or removed for a reason of our own;
+ * refusals from Tor itself surface as TorControlError
+ */
+export class OnionPublishError extends Error {
+  constructor(message: string, public readonly reason: 'target-not-allowed' | 'limit' | 'duplicate' | 'not-found' | 'invalid' | 'key-file') {
+    super(message);
+    this.name = 'OnionPublishError';
+  }
+}
+
+// Service IDs as Tor reports them: onion addresses without ".onion"
+const SERVICE_ID_PATTERN = /^[a-z2-7]{56}$/i;
+
+const KEY_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+// x25519 public keys as ClientAuthV3 expects them: 32 bytes in unpadded base32
+const CLIENT_KEY_PATTERN = /^[a-z2-7]{52}$/i;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const keyFileSchema = z.object({
+  serviceId: z.string(),
+  privateKey: z.string().regex(/^ED25519-V3:[A-Za-z0-9+/]+={0,2}$/),
+  createdAt: z.string(),
+});
+
+/**
+ * Onion Service Publisher
+ *
+ * Exposes local ports as version 3 onion services with ADD_ONION. Services
+ * are detached from the control connection, so they survive reconnects,
+ * and are removed with DEL_ONION when asked to or when the server shuts
+ * down. Only targets in `allowedTargets` can be published.
+ */
+export class OnionPublisher {
+  private services = new Map<string, PublishedOnionService>();
+  // Publishes still waiting on Tor, counted against maxServices
+  private pending = 0;
+  private pendingKeyNames = new Set<string>();
+
+  constructor(
+    private config: OnionPublishingConfig & { keyDirectory: string },
+    private sendCommand: (command: string) => Promise<ControlReply>
+  ) {}
+
+  public async publish(options: PublishOptions): Promise<{ service: PublishedOnionService; clientKeys: ClientKey[]; keyCreated: boolean }> {
+    const targetHost = options.targetHost ?? '127.0.0.1';
+    const virtualPort = options.virtualPort ?? 80;
+    if (!this.config.allowedTargets.includes(targetHost.toLowerCase())) {
+      throw new OnionPublishError(
+        `${targetHost} is not an allowed target (allowed: ${this.config.allowedTargets.join(', ')})`,
+        'target-not-allowed'
+      );
+    }
+    if (this.services.size + this.pending >= this.config.maxServices) {
+      throw new OnionPublishError(`Already publishing ${this.services.size + this.pending} services, the configured maximum`, 'limit');
+    }
+    if (options.keyName !== undefined && !KEY_NAME_PATTERN.test(options.keyName)) {
+      throw new OnionPublishError('Key names are 1-64 letters, digits, "-" or "_"', 'invalid');
+    }
+    const published = [...this.services.values()].find(service => options.keyName !== undefined && service.keyName === options.keyName);
+    if (published) {
+      throw new OnionPublishError(`Key "${options.keyName}" is already published as ${published.url}`, 'duplicate');
+    }
+    if (options.keyName !== undefined && this.pendingKeyNames.has(options.keyName)) {
+      throw new OnionPublishError(`Key "${options.keyName}" is already being published`, 'duplicate');
+    }
+
+    this.pending++;
+    if (options.keyName !== undefined) {
+      this.pendingKeyNames.add(options.keyName);
+    }
+    try {
+      return await this.addOnion(options, targetHost, virtualPort);
+    } finally {
+      this.pending--;
+      if (options.keyName !== undefined) {
+        this.pendingKeyNames.delete(options.keyName);
+      }
+    }
+  }
+
+  /**
+   * Services published by this server that Tor still runs, and the IDs of
+   * any other detached services (left by an earlier run or another controller)
+   */
+  public async list(): Promise<{ services: PublishedOnionService[]; unmanaged: string[] }> {
+    const reply = await this.sendCommand('GETINFO onions/detached');
+    const line = reply.lines.find(candidate => candidate.text.startsWith('onions/detached='));
+    const live = new Set((line?.data ?? line?.text.slice('onions/detached='.length) ?? '').split(/\s+/).filter(id => id.length > 0));
+
+    // Gone from Tor, e.g. because TOR restarted
+    for (const serviceId of this.services.keys()) {
+      if (!live.has(serviceId)) {
+        this.services.delete(serviceId);
+      }
+    }
+
+    return {
+      services: [...this.services.values()].map(service => ({ ...service })),
+      unmanaged: [...live].filter(serviceId => !this.services.has(serviceId)),
+    };
+  }
+
+  /**
+   * Take a service offline with DEL_ONION, optionally deleting its saved key
+   *
+   * `address` may be the service ID, its .onion hostname or a URL. Only
+   * services this server published can be removed: other detached services
+   * on a shared Tor belong to other controllers.
+   */
+  public async remove(address: string, deleteKey = false): Promise<PublishedOnionService> {
+    const bare = address.trim();
+    const { address: serviceId } = parseOnionAddress(SERVICE_ID_PATTERN.test(bare) ? `${bare}.onion` : bare);
+    const service = this.services.get(serviceId);
+    if (!service) {
+      throw new OnionPublishError(`${serviceId}.onion was not published by this server`, 'not-found');
+    }
+    try {
+      await this.sendCommand(`DEL_ONION ${serviceId}`);
+    } catch (error) {
+      // 552: Tor does not know the service, e.g. because TOR restarted
+      if (error instanceof TorControlError && error.status === 552) {
+        this.services.delete(serviceId);
+        throw new OnionPublishError(`${serviceId}.onion is not a running onion service`, 'not-found');
+      }
+      throw error;
+    }
+    this.services.delete(serviceId);
+
+    if (deleteKey && service.keyName !== undefined) {
+      await fs.rm(this.keyPath(service.keyName), { force: true });
+    }
+    return service;
+  }
+
+  /**
+   * Remove every service this server published; used at shutdown
+   */
+  public async removeAll(): Promise<void> {
+    for (const serviceId of [...this.services.keys()]) {
+      try {
+        await this.remove(serviceId);
+      } catch (error) {
+        console.error(`[OnionPublisher] Could not remove ${serviceId}.onion: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Send ADD_ONION for a publish whose slot and key name are already reserved
+   */
+  private async addOnion(options: PublishOptions, targetHost: string, virtualPort: number): Promise<{ service: PublishedOnionService; clientKeys: ClientKey[]; keyCreated: boolean }> {
+    const authorized = (options.clientKeys ?? []).map(normalizeClientKey);
+    const generated = Array.from({ length: options.generateClientKeys ?? 0 }, generateClientKey);
+    authorized.push(...generated.map(key => key.publicKey));
+
+    const savedKey = options.keyName !== undefined ? await this.readKey(options.keyName) : null;
+    const flags = ['Detach'];
+    if (options.keyName === undefined) {
+      flags.push('DiscardPK');
+    }
+    if (authorized.length > 0) {
+      flags.push('V3Auth');
+    }
+
+    const target = targetHost.includes(':') ? `[${targetHost}]:${options.targetPort}` : `${targetHost}:${options.targetPort}`;
+    const reply = await this.sendCommand([
+      'ADD_ONION',
+      savedKey?.privateKey ?? 'NEW:ED25519-V3',
+      `Flags=${flags.join(',')}`,
+      `Port=${virtualPort},${target}`,
+      ...authorized.map(key => `ClientAuthV3=${key}`),
+    ].join(' '));
+
+    const fields = Object.assign({}, ...reply.lines.map(line => parseKeyValues(line.text))) as Record<string, string | undefined>;
+    const serviceId = fields.ServiceID;
+    if (!serviceId) {
+      throw new Error('Tor did not return a ServiceID for ADD_ONION');
+    }
+
+    const service: PublishedOnionService = {
+      serviceId,
+      url: `http://${serviceId}.onion${virtualPort === 80 ? '' : `:${virtualPort}`}/`,
+      virtualPort,
+      target,
+      keyName: options.keyName,
+      authorizedClients: authorized.length,
+      publishedAt: new Date(),
+    };
+    this.services.set(serviceId, service);
+
+    // A new key is only ever returned once; without it the address cannot be published again
+    if (options.keyName !== undefined && !savedKey && fields.PrivateKey) {
+      try {
+        await this.saveKey(options.keyName, { serviceId, privateKey: fields.PrivateKey, createdAt: service.publishedAt.toISOString() });
+      } catch (error) {
+        const removed = await this.remove(serviceId).then(() => true, () => false);
+        throw new OnionPublishError(
+          `${error instanceof Error ? error.message : String(error)}; ${removed ? 'the service was taken offline' : `${serviceId}.onion is still running`}`,
+          'key-file'
+        );
+      }
+    }
+
+    return {
+      service: { ...service },
+      clientKeys: generated.map(key => ({ ...key, authFileLine: `${serviceId}:descriptor:x25519:${key.privateKey}` })),
+      keyCreated: options.keyName !== undefined && !savedKey,
+    };
+  }
+
+  private keyPath(keyName: string): string {
+    return join(this.config.keyDirectory, `${keyName}.json`);
+  }
+
+  private async readKey(keyName: string): Promise<z.infer<typeof keyFileSchema> | null> {
+    const path = this.keyPath(keyName);
+    let raw: string;
+    try {
+      raw = await fs.readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new OnionPublishError(`Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`, 'key-file');
+    }
+
+    try {
+      return keyFileSchema.parse(JSON.parse(raw));
+    } catch {
+      throw new OnionPublishError(`${path} is not a valid onion service key file`, 'key-file');
+    }
+  }
+
+  /**
+   * Write a key file atomically, readable only by this user
+   */
+  private async saveKey(keyName: string, key: z.infer<typeof keyFileSchema>): Promise<void> {
+    const path = this.keyPath(keyName);
+    try {
+      await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+      const temporary = `${path}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, `${JSON.stringify(key, null, 2)}\n`, { mode: 0o600 });
+      await fs.rename(temporary, path);
+    } catch (error) {
+      throw new OnionPublishError(`Could not save the key for ${key.serviceId}.onion to ${path}: ${error instanceof Error ? error.message : String(error)}`, 'key-file');
+    }
+  }
+}
+
+/**
+ * Accept a bare base32 x25519 key or a `descriptor:x25519:<key>` line from an `.auth` file
+ */
+function normalizeClientKey(input: string): string {
+  const key = input.trim().replace(/^descriptor:x25519:/i, '');
+  if (!CLIENT_KEY_PATTERN.test(key)) {
+    throw new OnionPublishError('Client keys must be x25519 public keys in base32 (52 characters)', 'invalid');
+  }
+  return key.toUpperCase();
+}
+
+function generateClientKey(): Omit<ClientKey, 'authFileLine'> {
+  const { publicKey, privateKey } = generateKeyPairSync('x25519');
+  return {
+    publicKey: base32Encode(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')),
+    privateKey: base32Encode(Buffer.from(privateKey.export({ format: 'jwk' }).d!, 'base64url')),
+  };
+}
+
+/**
+ * Encode bytes as unpadded uppercase base32 (RFC 4648)
+ */
+function base32Encode(data: Buffer): string {
+  let text = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of data) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      text += BASE32_ALPHABET[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) {
+    text += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return text;
+}
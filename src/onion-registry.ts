@@ -0,0 +1,431 @@
+import { dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { promises as fs } from 'fs';
+import { parseOnionAddress } from './onion-address.js';
+import { z } from 'zod';
+
+/**
+ * A registered onion service
+ *
+ * `source` records where the entry came from: "bundled", the path of a
+ * registry file, or "user" for entries added with add_onion_service.
+ * `signature` and `fingerprint` are kept as the list maintainer supplied
+ * them; they are shown, not checked.
+ */
+export interface OnionService {
+  name: string;
+  url: string;
+  address: string;
+  description: string;
+  category: string;
+  tags: string[];
+  verified: boolean;
+  source: string;
+  addedAt?: string;
+  updatedAt?: string;
+  signature?: string;
+  fingerprint?: string;
+}
+
+export interface OnionServiceMatch {
+  service: OnionService;
+  score: number;
+}
+
+export type OnionRegistryConfig = z.infer<typeof onionRegistryConfigSchema>;
+
+export const onionRegistryConfigSchema = z.object({
+  bundled: z.boolean().default(true),
+  files: z.array(z.string().min(1)).default([]),
+  storeFile: z.string().min(1).optional(),
+}).strict();
+
+export const onionServiceUrlSchema = z.string().url().superRefine((url, context) => {
+  try {
+    parseOnionAddress(url);
+  } catch (error) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+const entrySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  url: onionServiceUrlSchema,
+  description: z.string().max(2000).default(''),
+  category: z.string().trim().min(1).max(50).transform(category => category.toLowerCase()),
+  tags: z.array(z.string().trim().min(1).max(50).transform(tag => tag.toLowerCase())).max(50).default([]),
+  verified: z.boolean().default(false),
+  source: z.string().min(1).max(500).optional(),
+  addedAt: z.string().datetime().optional(),
+  updatedAt: z.string().datetime().optional(),
+  signature: z.string().min(1).max(10000).optional(),
+  fingerprint: z.string().min(1).max(200).optional(),
+}).strict();
+
+const registryFileSchema = z.object({
+  services: z.array(z.unknown()).default([]),
+  removed: z.array(z.string()).default([]),
+}).strict();
+
+type RegistryEntry = z.infer<typeof entrySchema>;
+
+export type OnionServiceFields = z.input<typeof entrySchema>;
+
+/**
+ * Raised when a registry change cannot be made
+ */
+export class OnionRegistryError extends Error {
+  constructor(message: string, public readonly reason: 'duplicate' | 'not-found' | 'invalid') {
+    super(message);
+    this.name = 'OnionRegistryError';
+  }
+}
+
+const BUNDLED_FILE = fileURLToPath(new URL('../data/onion-services.json', import.meta.url));
+
+// How much a query word matching each field counts
+const FIELD_WEIGHTS = { name: 4, address: 4, tags: 3, category: 3, description: 1 } as const;
+
+/**
+ * Onion Service Registry
+ *
+ * Merges the bundled list, any configured registry files and the user's
+ * own store, later sources replacing earlier entries for the same address.
+ * Changes made through the tools go to the store file, including
+ * tombstones for removed entries that came from elsewhere, so the
+ * bundled and team files are never written.
+ */
+export class OnionRegistry {
+  private services = new Map<string, OnionService>();
+  private store: { services: RegistryEntry[]; removed: string[] } = { services: [], removed: [] };
+  private loading: Promise<void> | null = null;
+  private changes: Promise<unknown> = Promise.resolve();
+
+  constructor(private config: OnionRegistryConfig) {}
+
+  public async list(): Promise<OnionService[]> {
+    await this.load();
+    return [...this.services.values()];
+  }
+
+  public async get(address: string): Promise<OnionService | undefined> {
+    await this.load();
+    return this.services.get(addressOf(address));
+  }
+
+  /**
+   * Categories present in the registry, with the number of services in each
+   */
+  public async categories(): Promise<Array<{ category: string; count: number }>> {
+    const counts = new Map<string, number>();
+    for (const service of await this.list()) {
+      counts.set(service.category, (counts.get(service.category) ?? 0) + 1);
+    }
+    return [...counts].map(([category, count]) => ({ category, count })).sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  /**
+   * Rank services against a free-text query
+   *
+   * Each query word scores by its best match in any field: whole word,
+   * prefix, substring or a near miss of one or two typos. An empty query
+   * lists everything.
+   */
+  public async search(query: string, options: { category?: string; limit?: number } = {}): Promise<OnionServiceMatch[]> {
+    const words = tokenize(query);
+    const category = options.category?.toLowerCase();
+
+    const matches: OnionServiceMatch[] = [];
+    for (const service of await this.list()) {
+      if (category && service.category !== category) {
+        continue;
+      }
+      const score = words.length === 0 ? 0 : scoreService(service, words, query.trim().toLowerCase());
+      if (words.length === 0 || score > 0) {
+        matches.push({ service, score });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || Number(b.service.verified) - Number(a.service.verified) || a.service.name.localeCompare(b.service.name))
+      .slice(0, options.limit ?? matches.length);
+  }
+
+  public add(fields: OnionServiceFields): Promise<OnionService> {
+    return this.serialize(async () => {
+      await this.load();
+
+      const entry = parseEntry({ source: 'user', ...fields, addedAt: new Date().toISOString() });
+      const address = addressOf(entry.url);
+      const existing = this.services.get(address);
+      if (existing) {
+        throw new OnionRegistryError(`${address} is already registered as "${existing.name}"`, 'duplicate');
+      }
+
+      await this.save({
+        services: [...this.store.services, entry],
+        removed: this.store.removed.filter(removed => removed !== address),
+      });
+      return this.set(entry, 'user');
+    });
+  }
+
+  public update(address: string, changes: Partial<OnionServiceFields>): Promise<OnionService> {
+    return this.serialize(async () => {
+      await this.load();
+
+      const current = this.services.get(addressOf(address));
+      if (!current) {
+        throw new OnionRegistryError(`No service is registered at ${address}`, 'not-found');
+      }
+
+      const fields: Partial<OnionService> = { ...current, ...changes, updatedAt: new Date().toISOString() };
+      delete fields.address;
+      const entry = parseEntry(fields);
+      const updatedAddress = addressOf(entry.url);
+      if (updatedAddress !== current.address && this.services.has(updatedAddress)) {
+        throw new OnionRegistryError(`${updatedAddress} is already registered as "${this.services.get(updatedAddress)!.name}"`, 'duplicate');
+      }
+
+      await this.save({
+        services: [...this.store.services.filter(stored => addressOf(stored.url) !== current.address), entry],
+        removed: updatedAddress !== current.address ? tombstone(this.store.removed, current.address) : this.store.removed,
+      });
+      this.services.delete(current.address);
+      return this.set(entry, entry.source ?? 'user');
+    });
+  }
+
+  public remove(address: string): Promise<OnionService> {
+    return this.serialize(async () => {
+      await this.load();
+
+      const current = this.services.get(addressOf(address));
+      if (!current) {
+        throw new OnionRegistryError(`No service is registered at ${address}`, 'not-found');
+      }
+
+      await this.save({
+        services: this.store.services.filter(stored => addressOf(stored.url) !== current.address),
+        removed: tombstone(this.store.removed, current.address),
+      });
+      this.services.delete(current.address);
+      return current;
+    });
+  }
+
+  /**
+   * Run changes one at a time, so each one sees the result of the last
+   */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.changes.then(change);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read every source, once
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.readSources();
+    return this.loading;
+  }
+
+  private async readSources(): Promise<void> {
+    if (this.config.bundled) {
+      this.merge(await readRegistryFile(BUNDLED_FILE), 'bundled');
+    }
+    for (const file of this.config.files) {
+      this.merge(await readRegistryFile(file), file);
+    }
+
+    if (this.config.storeFile) {
+      const store = await readRegistryFile(this.config.storeFile, true);
+      this.store = { services: store.services, removed: store.removed };
+      for (const address of store.removed) {
+        this.services.delete(address);
+      }
+      this.merge(store, 'user');
+    }
+  }
+
+  private merge(file: { services: RegistryEntry[]; removed: string[] }, source: string): void {
+    for (const entry of file.services) {
+      this.set(entry, source);
+    }
+  }
+
+  private set(entry: RegistryEntry, source: string): OnionService {
+    const service: OnionService = {
+      ...entry,
+      source: entry.source ?? source,
+      address: addressOf(entry.url),
+    };
+    this.services.set(service.address, service);
+    return service;
+  }
+
+  /**
+   * Write the store file atomically, then make `store` the current one
+   *
+   * If the write fails, the registry is left as it was.
+   */
+  private async save(store: { services: RegistryEntry[]; removed: string[] }): Promise<void> {
+    const path = this.config.storeFile;
+    if (path) {
+      await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+      const temporary = `${path}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, `${JSON.stringify(store, null, 2)}\n`, { mode: 0o600 });
+      await fs.rename(temporary, path);
+    }
+    this.store = store;
+  }
+}
+
+/**
+ * Add an address to the tombstones that hide it from the bundled list and registry files on later loads
+ */
+function tombstone(removed: string[], address: string): string[] {
+  return removed.includes(address) ? removed : [...removed, address];
+}
+
+/**
+ * Read a registry file, skipping (and logging) entries that fail validation
+ */
+async function readRegistryFile(path: string, optional = false): Promise<{ services: RegistryEntry[]; removed: string[] }> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path, 'utf8');
+  } catch (error) {
+    if (!optional || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[OnionRegistry] Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { services: [], removed: [] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    console.error(`[OnionRegistry] Ignoring ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return { services: [], removed: [] };
+  }
+
+  const parsed = registryFileSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`[OnionRegistry] Ignoring ${path}: ${parsed.error.issues[0].message}`);
+    return { services: [], removed: [] };
+  }
+
+  const services: RegistryEntry[] = [];
+  parsed.data.services.forEach((candidate, index) => {
+    const entry = entrySchema.safeParse(candidate);
+    if (entry.success) {
+      services.push(entry.data);
+    } else {
+      const issue = entry.error.issues[0];
+      console.error(`[OnionRegistry] Skipping services[${index}] in ${path}: ${issue.path.join('.')} ${issue.message}`);
+    }
+  });
+
+  return { services, removed: parsed.data.removed.map(addressOf) };
+}
+
+function parseEntry(fields: unknown): RegistryEntry {
+  const parsed = entrySchema.safeParse(fields);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new OnionRegistryError(`Invalid ${issue.path.join('.') || 'entry'}: ${issue.message}`, 'invalid');
+  }
+  return parsed.data;
+}
+
+/**
+ * The bare onion hostname of a URL or address, the registry's key
+ */
+function addressOf(urlOrAddress: string): string {
+  try {
+    return parseOnionAddress(urlOrAddress).hostname;
+  } catch {
+    return urlOrAddress.trim().toLowerCase();
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0);
+}
+
+function scoreService(service: OnionService, words: string[], phrase: string): number {
+  const fields: Array<[keyof typeof FIELD_WEIGHTS, string[]]> = [
+    ['name', tokenize(service.name)],
+    ['address', [service.address.replace(/\.onion$/, '')]],
+    ['tags', service.tags.flatMap(tokenize)],
+    ['category', tokenize(service.category)],
+    ['description', tokenize(service.description)],
+  ];
+
+  let score = 0;
+  let matched = 0;
+  for (const word of words) {
+    let best = 0;
+    for (const [field, fieldWords] of fields) {
+      for (const candidate of fieldWords) {
+        best = Math.max(best, FIELD_WEIGHTS[field] * matchQuality(word, candidate, field === 'address'));
+      }
+    }
+    score += best;
+    matched += best > 0 ? 1 : 0;
+  }
+
+  if (matched === 0) {
+    return 0;
+  }
+  // Prefer services matching every word, and names containing the whole query
+  return score * (matched / words.length) + (service.name.toLowerCase().includes(phrase) ? 2 : 0);
+}
+
+/**
+ * How well one query word matches one field word, from 0 to 1
+ */
+function matchQuality(word: string, candidate: string, prefixOnly: boolean): number {
+  if (candidate === word) {
+    return 1;
+  }
+  if (candidate.startsWith(word)) {
+    return prefixOnly ? 1 : 0.8;
+  }
+  if (prefixOnly) {
+    return 0;
+  }
+  if (word.length >= 3 && candidate.includes(word)) {
+    return 0.6;
+  }
+
+  const allowed = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  if (allowed > 0 && Math.abs(candidate.length - word.length) <= allowed && editDistance(word, candidate, allowed) <= allowed) {
+    return 0.4;
+  }
+  return 0;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `limit`
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,276 @@
+import { inflateSync } from 'zlib';
+
+// Used when no limit is given; matches the default urlPolicy.maxBodyBytes
+const DEFAULT_MAX_DECODED_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Best-effort text extraction from PDF content streams
+ *
+ * Handles uncompressed and FlateDecode streams and the common text
+ * operators (Tj, TJ, ', "). Fonts with custom encodings and scanned
+ * pages yield little or no text; callers should say so rather than
+ * present garbage.
+ *
+ * Compressed streams can inflate to many times their size, so decoding
+ * stops once `maxDecodedBytes` have been decoded, keeping the text found
+ * up to that point.
+ */
+export function extractPdfText(data: Buffer, maxDecodedBytes = DEFAULT_MAX_DECODED_BYTES): string {
+  const source = data.toString('latin1');
+  const pages: string[] = [];
+  let decoded = 0;
+
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source)) !== null) {
+    // Only "stream" keywords that follow a dictionary start a stream
+    const before = source.slice(Math.max(0, match.index - 2048), match.index);
+    if (!/>>\s*$/.test(before)) {
+      continue;
+    }
+
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) {
+      break;
+    }
+    streamPattern.lastIndex = end;
+
+    const dictionary = before.slice(before.lastIndexOf('obj') + 1);
+    if (/\/Subtype\s*\/Image|\/Length1|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) {
+      continue;
+    }
+
+    let content: string | null;
+    try {
+      content = decodeStream(data.subarray(start, end), dictionary, maxDecodedBytes - decoded);
+    } catch {
+      break;
+    }
+    decoded += content?.length ?? 0;
+    if (content && /\bBT\b/.test(content)) {
+      const text = extractTextOperators(content);
+      if (text.trim()) {
+        pages.push(text);
+      }
+    }
+    if (decoded >= maxDecodedBytes) {
+      break;
+    }
+  }
+
+  return pages
+    .join('\n\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Share of characters in `text` that are printable, used to detect undecodable font encodings
+ */
+export function printableRatio(text: string): number {
+  if (text.length === 0) {
+    return 0;
+  }
+  const printable = text.match(/[\p{L}\p{N}\p{P}\p{Zs}\n]/gu)?.length ?? 0;
+  return printable / text.length;
+}
+
+/**
+ * Decode a stream's data, or return null if its filters are not supported
+ *
+ * Throws once the decoded data would exceed `maxOutputLength` bytes.
+ */
+function decodeStream(raw: Buffer, dictionary: string, maxOutputLength: number): string | null {
+  const filters = [...dictionary.matchAll(/\/(\w+Decode)\b/g)].map(filter => filter[1]);
+
+  if (filters.length === 0) {
+    return raw.toString('latin1', 0, maxOutputLength);
+  }
+  if (filters.length === 1 && filters[0] === 'FlateDecode') {
+    try {
+      return inflateSync(raw, { maxOutputLength }).toString('latin1');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  // DCT, LZW, JBIG2 and friends are images or too rare to bother with
+  return null;
+}
+
+/**
+ * Walk a content stream and collect the strings shown by text operators
+ */
+function extractTextOperators(content: string): string {
+  const output: string[] = [];
+  let operands: Array<string | number | Array<string | number>> = [];
+  let array: Array<string | number> | null = null;
+  let index = 0;
+
+  const show = (value: unknown): void => {
+    if (typeof value === 'string') {
+      output.push(value);
+    } else if (Array.isArray(value)) {
+      for (const part of value) {
+        if (typeof part === 'string') {
+          output.push(part);
+        } else if (part < -200) {
+          // A large negative kerning adjustment is how many PDFs encode a space
+          output.push(' ');
+        }
+      }
+    }
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '(') {
+      const [text, next] = readLiteralString(content, index);
+      (array ?? operands).push(text);
+      index = next;
+    } else if ((char === '<' || char === '>') && content[index + 1] === char) {
+      // Inline dictionary delimiters
+      index += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', index);
+      const text = decodeHexString(content.slice(index + 1, end === -1 ? content.length : end));
+      (array ?? operands).push(text);
+      index = end === -1 ? content.length : end + 1;
+    } else if (char === '[') {
+      array = [];
+      index++;
+    } else if (char === ']') {
+      if (array) {
+        operands.push(array);
+      }
+      array = null;
+      index++;
+    } else if (char === '%') {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end + 1;
+    } else if (/[\s<>{}/]/.test(char)) {
+      // Names, dictionaries and whitespace carry no text
+      if (char === '/') {
+        const name = /^\/[^\s/[\]()<>{}%]*/.exec(content.slice(index))![0];
+        operands.push(name);
+        index += name.length;
+      } else {
+        index++;
+      }
+    } else {
+      const token = /^[^\s/[\]()<>{}%]+/.exec(content.slice(index))?.[0] ?? char;
+      index += token.length;
+
+      const number = Number(token);
+      if (!Number.isNaN(number)) {
+        (array ?? operands).push(number);
+        continue;
+      }
+
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          show(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          output.push('\n');
+          show(operands[operands.length - 1]);
+          break;
+        case 'T*':
+        case 'ET':
+          output.push('\n');
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands[operands.length - 1];
+          const tx = operands[operands.length - 2];
+          if (typeof ty === 'number' && ty !== 0) {
+            output.push('\n');
+          } else if (typeof tx === 'number' && tx > 0) {
+            output.push(' ');
+          }
+          break;
+        }
+        case 'Tm':
+          output.push('\n');
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  return output.join('');
+}
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 0;
+  let result = '';
+  let index = start;
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '\\') {
+      const next = content[index + 1];
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+      if (next in escapes) {
+        result += escapes[next];
+        index += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1))![0];
+        result += String.fromCharCode(parseInt(octal, 8));
+        index += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        // Line continuation
+        index += next === '\r' && content[index + 2] === '\n' ? 3 : 2;
+      } else {
+        result += next ?? '';
+        index += 2;
+      }
+      continue;
+    }
+
+    if (char === '(') {
+      depth++;
+      if (depth > 1) {
+        result += char;
+      }
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return [decodePdfString(result), index + 1];
+      }
+      result += char;
+    } else {
+      result += char;
+    }
+    index++;
+  }
+
+  return [decodePdfString(result), index];
+}
+
+function decodeHexString(hex: string): string {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  const bytes = Buffer.from(digits.length % 2 === 0 ? digits : `${digits}0`, 'hex');
+  return decodePdfString(bytes.toString('latin1'));
+}
+
+/**
+ * Strings with a UTF-16 byte order mark are Unicode; everything else is close enough to Latin-1
+ */
+function decodePdfString(value: string): string {
+  if (value.startsWith('\u00fe\u00ff')) {
+    const bytes = Buffer.from(value.slice(2), 'latin1');
+    return bytes.subarray(0, bytes.length - (bytes.length % 2)).swap16().toString('utf16le');
+  }
+  return value;
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+/**
+ * Which redirects `TorNetworkClient.request` follows
+ */
+export interface RedirectPolicy {
+  maxRedirects: number;
+  allowOnionToClearnet: boolean;
+  allowHttpsDowngrade: boolean;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+}
+
+export type RedirectViolation = 'too-many-redirects' | 'onion-to-clearnet' | 'https-downgrade' | 'invalid-location';
+
+export const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export const redirectPolicySchema = z.object({
+  maxRedirects: z.number().int().min(0).max(20).default(5),
+  allowOnionToClearnet: z.boolean().default(false),
+  allowHttpsDowngrade: z.boolean().default(false),
+}).strict();
+
+/**
+ * Raised when a redirect is refused; carries the hops followed so far
+ */
+export class RedirectError extends Error {
+  constructor(
+    message: string,
+    public readonly violation: RedirectViolation,
+    public readonly redirects: RedirectHop[]
+  ) {
+    super(message);
+    this.name = 'RedirectError';
+  }
+}
+
+/**
+ * Resolve a Location header and check the hop against the policy
+ */
+export function resolveRedirect(
+  from: string,
+  status: number,
+  location: string,
+  policy: RedirectPolicy,
+  redirects: RedirectHop[]
+): URL {
+  let target: URL;
+  try {
+    target = new URL(location, from);
+  } catch {
+    const hops = [...redirects, { url: from, status, location }];
+    throw new RedirectError(`Redirect from ${from} has an invalid Location: ${location}`, 'invalid-location', hops);
+  }
+
+  const hops = [...redirects, { url: from, status, location: target.href }];
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new RedirectError(`Refusing redirect to unsupported scheme ${target.protocol}`, 'invalid-location', hops);
+  }
+
+  if (redirects.length >= policy.maxRedirects) {
+    throw new RedirectError(`Too many redirects (limit ${policy.maxRedirects})`, 'too-many-redirects', hops);
+  }
+
+  const source = new URL(from);
+  if (isOnionHost(source.hostname) && !isOnionHost(target.hostname) && !policy.allowOnionToClearnet) {
+    throw new RedirectError(
+      `Refusing redirect from onion service ${source.hostname} to clearnet host ${target.hostname}`,
+      'onion-to-clearnet',
+      hops
+    );
+  }
+
+  // Onion services are end-to-end encrypted by TOR, so plain http to an onion is not a downgrade
+  if (source.protocol === 'https:' && target.protocol === 'http:' && !isOnionHost(target.hostname) &&
+      !policy.allowHttpsDowngrade) {
+    throw new RedirectError(`Refusing redirect from https to http (${target.href})`, 'https-downgrade', hops);
+  }
+
+  return target;
+}
+
+/**
+ * Method a redirect should be followed with, per the Fetch standard
+ */
+export function redirectMethod(status: number, method: string): string {
+  if (status === 303 && method !== 'HEAD') {
+    return 'GET';
+  }
+  if ((status === 301 || status === 302) && method === 'POST') {
+    return 'GET';
+  }
+  return method;
+}
+
+export function isOnionHost(hostname: string): boolean {
+  return hostname.toLowerCase().replace(/\.$/, '').endsWith('.onion');
+}
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import { Headers } from 'node-fetch';
+
+import { type CachedResponse, ResponseCache, isFresh } from './response-cache.js';
+import assert from 'assert/strict';
+
+const PAGE_URL = 'http://example.onion/page';
+const DATE = 'Mon, 05 Oct 2026 12:00:00 GMT';
+
+/**
+ * Store a 200 response with the given headers in a fresh in-memory cache
+ */
+async function store(
+  responseHeaders: Record<string, string>,
+  requestHeaders: Record<string, string> = {},
+  status = 200
+): Promise<{ cache: ResponseCache; entry: CachedResponse | null }> {
+  const cache = new ResponseCache({ maxEntries: 10, maxBytes: 1024 * 1024 });
+  const entry = await cache.store('', PAGE_URL, new Headers(requestHeaders), {
+    status,
+    statusText: 'OK',
+    headers: new Headers(responseHeaders),
+  }, Buffer.from('body'));
+  return { cache, entry };
+}
+
+function lifetimeOf(entry: CachedResponse | null): number {
+  assert.ok(entry);
+  return (entry.expiresAt.getTime() - entry.storedAt.getTime()) / 1000;
+}
+
+describe('freshness lifetime', () => {
+  it('takes max-age, less the Age the response already has', async () => {
+    const { entry } = await store({ 'Cache-Control': 'public, max-age=60', Age: '10', Date: DATE });
+    assert.equal(lifetimeOf(entry), 50);
+  });
+
+  it('prefers max-age over Expires', async () => {
+    const { entry } = await store({ 'Cache-Control': 'max-age=30', Date: DATE, Expires: 'Mon, 05 Oct 2026 13:00:00 GMT' });
+    assert.equal(lifetimeOf(entry), 30);
+  });
+
+  it('measures Expires from the Date header', async () => {
+    const { entry } = await store({ Date: DATE, Expires: 'Mon, 05 Oct 2026 12:02:00 GMT' });
+    assert.equal(lifetimeOf(entry), 120);
+  });
+
+  it('treats an invalid Expires as already expired', async () => {
+    assert.equal((await store({ Date: DATE, Expires: '0' })).entry, null);
+    assert.equal(lifetimeOf((await store({ Date: DATE, Expires: '0', ETag: '"v1"' })).entry), 0);
+  });
+
+  it('uses a tenth of the time since Last-Modified, capped at a day', async () => {
+    const { entry: recent } = await store({ Date: DATE, 'Last-Modified': 'Sun, 04 Oct 2026 12:00:00 GMT' });
+    assert.equal(lifetimeOf(recent), 8640);
+
+    const { entry: old } = await store({ Date: DATE, 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' });
+    assert.equal(lifetimeOf(old), 24 * 60 * 60);
+  });
+
+  it('does not store responses it may not keep', async () => {
+    assert.equal((await store({ 'Cache-Control': 'no-store, max-age=60' })).entry, null);
+    assert.equal((await store({ 'Cache-Control': 'max-age=60', Vary: '*' })).entry, null);
+    assert.equal((await store({ Date: DATE, 'Last-Modified': 'Sun, 04 Oct 2026 12:00:00 GMT' }, {}, 500)).entry, null);
+    assert.equal((await store({ 'Cache-Control': 'max-age=0' })).entry, null);
+  });
+});
+
+describe('isFresh', () => {
+  it('serves a response until it expires', async () => {
+    const { entry } = await store({ 'Cache-Control': 'max-age=60' });
+    assert.ok(entry);
+
+    assert.equal(isFresh(entry, new Headers(), new Date(entry.storedAt.getTime() + 59 * 1000)), true);
+    assert.equal(isFresh(entry, new Headers(), new Date(entry.storedAt.getTime() + 60 * 1000)), false);
+  });
+
+  it('revalidates when the request or the response asks for it', async () => {
+    const { entry } = await store({ 'Cache-Control': 'max-age=60' });
+    assert.ok(entry);
+    assert.equal(isFresh(entry, new Headers({ 'Cache-Control': 'no-cache' }), entry.storedAt), false);
+    assert.equal(isFresh(entry, new Headers({ 'Cache-Control': 'max-age=0' }), entry.storedAt), false);
+
+    const { entry: noCache } = await store({ 'Cache-Control': 'no-cache, max-age=60' });
+    assert.ok(noCache);
+    assert.equal(isFresh(noCache, new Headers(), noCache.storedAt), false);
+  });
+});
+
+describe('Vary', () => {
+  it('only matches requests with the same values for the varying headers', async () => {
+    const { cache, entry } = await store({ 'Cache-Control': 'max-age=60', Vary: 'Accept-Language' }, { 'Accept-Language': 'en' });
+    assert.ok(entry);
+
+    assert.equal(await cache.lookup('', PAGE_URL, new Headers({ 'Accept-Language': 'en' })), entry);
+    assert.equal(await cache.lookup('', PAGE_URL, new Headers({ 'Accept-Language': 'fr' })), undefined);
+    assert.equal(await cache.lookup('', PAGE_URL, new Headers()), undefined);
+  });
+
+  it('keeps identities apart', async () => {
+    const { cache } = await store({ 'Cache-Control': 'max-age=60' });
+    assert.equal(await cache.lookup('other', PAGE_URL, new Headers()), undefined);
+  });
+});
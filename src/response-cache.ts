@@ -0,0 +1,392 @@
+import type { Headers } from 'node-fetch';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * How a request uses the response cache:
+ * - use: serve fresh copies, revalidate stale ones, store new responses
+ * - bypass: always go to the network, then store the new response
+ * - only: never go to the network; serve whatever copy is stored, even stale
+ */
+export type CacheMode = 'use' | 'bypass' | 'only';
+
+export const CACHE_MODES = ['use', 'bypass', 'only'] as const;
+
+export type CacheStatus = 'hit' | 'stale' | 'revalidated' | 'miss' | 'bypass';
+
+/**
+ * What the cache did for one request
+ */
+export interface CacheInfo {
+  status: CacheStatus;
+  stored: boolean;
+  storedAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface CachedResponse {
+  identity: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: Buffer;
+  vary: Record<string, string>;
+  storedAt: Date;
+  expiresAt: Date;
+  noCache: boolean;
+}
+
+// On-disk form of a cached response
+type PersistedResponse = Omit<CachedResponse, 'body' | 'storedAt' | 'expiresAt'> & {
+  body: string;
+  storedAt: string;
+  expiresAt: string;
+};
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+  directory?: string;
+}
+
+/**
+ * Raised when a request with cache mode "only" has no stored response
+ */
+export class CacheMissError extends Error {
+  constructor(public readonly url: string) {
+    super(`No cached response for ${url}`);
+    this.name = 'CacheMissError';
+  }
+}
+
+// Statuses RFC 9111 lets a cache store without explicit freshness
+const HEURISTIC_STATUSES = new Set([200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501]);
+
+// Longest heuristic freshness given to responses that only carry Last-Modified
+const MAX_HEURISTIC_SECONDS = 24 * 60 * 60;
+
+// Response headers never replayed from the cache
+const UNSTORED_HEADERS = new Set(['set-cookie', 'set-cookie2', 'connection', 'keep-alive', 'transfer-encoding']);
+
+/**
+ * Response Cache
+ *
+ * Keeps GET responses per isolation identity so revisited pages do not
+ * cost a round trip through TOR. Honors Cache-Control, Expires and Vary,
+ * revalidates stale copies with ETag / Last-Modified, and evicts the least
+ * recently used entries beyond its limits. With a directory configured,
+ * entries are also written to disk and reloaded on startup.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>();
+  private totalBytes = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private options: ResponseCacheOptions) {}
+
+  /**
+   * Find the stored response for a URL, if its Vary headers match the request
+   */
+  public async lookup(identity: string, url: string, requestHeaders: Headers): Promise<CachedResponse | undefined> {
+    await this.load();
+
+    const key = cacheKey(identity, url);
+    const entry = this.entries.get(key);
+    if (!entry || !varyMatches(entry, requestHeaders)) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Store a response if its headers allow it; returns the stored entry
+   */
+  public async store(
+    identity: string,
+    url: string,
+    requestHeaders: Headers,
+    response: { status: number; statusText: string; headers: Headers },
+    body: Buffer
+  ): Promise<CachedResponse | null> {
+    await this.load();
+
+    const now = new Date();
+    const lifetime = freshnessLifetime(response.status, response.headers, now);
+    const directives = parseCacheControl(response.headers.get('cache-control'));
+    const validated = response.headers.has('etag') || response.headers.has('last-modified');
+    const vary = response.headers.get('vary');
+
+    if (lifetime === null || (lifetime <= 0 && !validated) || directives.has('no-store') || vary?.trim() === '*' ||
+        body.length > this.options.maxBytes || this.options.maxEntries === 0) {
+      return null;
+    }
+
+    const entry: CachedResponse = {
+      identity,
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers].filter(([name]) => !UNSTORED_HEADERS.has(name.toLowerCase())),
+      body,
+      vary: varyValues(vary, requestHeaders),
+      storedAt: now,
+      expiresAt: new Date(now.getTime() + Math.max(lifetime, 0) * 1000),
+      noCache: directives.has('no-cache'),
+    };
+
+    this.set(entry);
+    await this.persist(entry);
+    return entry;
+  }
+
+  /**
+   * Extend a stored response after the server answered 304 Not Modified
+   */
+  public async refresh(entry: CachedResponse, notModified: Headers): Promise<CachedResponse> {
+    const headers = new Map(entry.headers.map(([name, value]) => [name.toLowerCase(), value]));
+    for (const [name, value] of notModified) {
+      if (!UNSTORED_HEADERS.has(name) && name !== 'content-length') {
+        headers.set(name, value);
+      }
+    }
+
+    const now = new Date();
+    const lifetime = freshnessLifetime(entry.status, { get: (name: string) => headers.get(name) ?? null }, now) ?? 0;
+
+    const refreshed: CachedResponse = {
+      ...entry,
+      headers: [...headers],
+      storedAt: now,
+      expiresAt: new Date(now.getTime() + Math.max(lifetime, 0) * 1000),
+      noCache: parseCacheControl(headers.get('cache-control') ?? null).has('no-cache'),
+    };
+
+    this.set(refreshed);
+    await this.persist(refreshed);
+    return refreshed;
+  }
+
+  /**
+   * Drop stored responses for one identity (the shared identity is ''), or all of them
+   */
+  public async clear(identity?: string): Promise<number> {
+    await this.load();
+
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (identity === undefined || entry.identity === identity) {
+        this.delete(key, entry);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  public stats(): { entries: number; bytes: number } {
+    return { entries: this.entries.size, bytes: this.totalBytes };
+  }
+
+  private set(entry: CachedResponse): void {
+    const key = cacheKey(entry.identity, entry.url);
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.entries.delete(key);
+      this.totalBytes -= existing.body.length;
+    }
+
+    this.entries.set(key, entry);
+    this.totalBytes += entry.body.length;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) {
+        break;
+      }
+      this.delete(oldestKey, oldest);
+    }
+  }
+
+  private delete(key: string, entry: CachedResponse): void {
+    this.entries.delete(key);
+    this.totalBytes -= entry.body.length;
+
+    const path = this.entryPath(entry);
+    if (path) {
+      fs.rm(path, { force: true }).catch(error => console.error(`[ResponseCache] Could not remove ${path}: ${error}`));
+    }
+  }
+
+  private entryPath(entry: Pick<CachedResponse, 'identity' | 'url'>): string | null {
+    return this.options.directory ? join(this.options.directory, `${sha256(cacheKey(entry.identity, entry.url))}.json`) : null;
+  }
+
+  /**
+   * Write an entry to disk; the in-memory copy stays usable if this fails
+   */
+  private async persist(entry: CachedResponse): Promise<void> {
+    const path = this.entryPath(entry);
+    if (!path) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(this.options.directory!, { recursive: true, mode: 0o700 });
+      await fs.writeFile(path, JSON.stringify({ ...entry, body: entry.body.toString('base64') }), { mode: 0o600 });
+    } catch (error) {
+      console.error(`[ResponseCache] Could not write ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Read entries persisted by an earlier run, once
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.readDirectory();
+    return this.loading;
+  }
+
+  private async readDirectory(): Promise<void> {
+    const directory = this.options.directory;
+    if (!directory) {
+      return;
+    }
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+    } catch {
+      return;
+    }
+
+    const loaded: CachedResponse[] = [];
+    for (const file of files) {
+      try {
+        const raw = JSON.parse(await fs.readFile(join(directory, file), 'utf8')) as PersistedResponse;
+        loaded.push({
+          ...raw,
+          body: Buffer.from(raw.body, 'base64'),
+          storedAt: new Date(raw.storedAt),
+          expiresAt: new Date(raw.expiresAt),
+        });
+      } catch {
+        await fs.rm(join(directory, file), { force: true });
+      }
+    }
+
+    // Oldest first, so the most recently stored survive eviction
+    loaded
+      .sort((a, b) => a.storedAt.getTime() - b.storedAt.getTime())
+      .forEach(entry => this.set(entry));
+  }
+}
+
+/**
+ * Whether a request may be answered from (or stored in) the cache
+ *
+ * Requests carrying credentials or cookies, or their own conditional or
+ * range headers, always go to the network.
+ */
+export function isCacheableRequest(method: string, headers: Headers): boolean {
+  if (method !== 'GET') {
+    return false;
+  }
+  if (['authorization', 'cookie', 'if-none-match', 'if-modified-since', 'range'].some(name => headers.has(name))) {
+    return false;
+  }
+  return !parseCacheControl(headers.get('cache-control')).has('no-store');
+}
+
+/**
+ * Whether a stored response can be served without asking the server
+ */
+export function isFresh(entry: CachedResponse, requestHeaders: Headers, now = new Date()): boolean {
+  const requested = parseCacheControl(requestHeaders.get('cache-control'));
+  return !entry.noCache && !requested.has('no-cache') && requested.get('max-age') !== '0' &&
+    entry.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * Conditional headers that revalidate a stored response
+ */
+export function conditionalHeaders(entry: CachedResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of entry.headers) {
+    if (name.toLowerCase() === 'etag') {
+      headers['If-None-Match'] = value;
+    } else if (name.toLowerCase() === 'last-modified') {
+      headers['If-Modified-Since'] = value;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Parse a Cache-Control header into lower-cased directives and their values
+ */
+export function parseCacheControl(value: string | null): Map<string, string> {
+  const directives = new Map<string, string>();
+  for (const part of (value ?? '').split(',')) {
+    const [name, ...rest] = part.split('=');
+    if (name.trim()) {
+      directives.set(name.trim().toLowerCase(), rest.join('=').trim().replace(/^"|"$/g, ''));
+    }
+  }
+  return directives;
+}
+
+/**
+ * Seconds a response stays fresh (RFC 9111 §4.2.1), or null if it may not be stored
+ *
+ * As a private cache, s-maxage and the private directive are ignored.
+ */
+function freshnessLifetime(status: number, headers: Pick<Headers, 'get'>, now: Date): number | null {
+  const directives = parseCacheControl(headers.get('cache-control'));
+  const age = Number(headers.get('age') ?? 0) || 0;
+
+  const maxAge = directives.get('max-age');
+  if (maxAge !== undefined && /^\d+$/.test(maxAge)) {
+    return Number(maxAge) - age;
+  }
+
+  const date = Date.parse(headers.get('date') ?? '') || now.getTime();
+  const expires = headers.get('expires');
+  if (expires !== null) {
+    const expiresAt = Date.parse(expires);
+    // An invalid Expires (often "0") means already expired
+    return Number.isNaN(expiresAt) ? 0 : (expiresAt - date) / 1000 - age;
+  }
+
+  if (!HEURISTIC_STATUSES.has(status) && !directives.has('public')) {
+    return null;
+  }
+
+  const lastModified = Date.parse(headers.get('last-modified') ?? '');
+  if (Number.isNaN(lastModified)) {
+    return 0;
+  }
+  return Math.min((date - lastModified) / 10000, MAX_HEURISTIC_SECONDS) - age;
+}
+
+function varyValues(vary: string | null, requestHeaders: Headers): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const name of (vary ?? '').split(',').map(header => header.trim().toLowerCase()).filter(Boolean)) {
+    values[name] = requestHeaders.get(name) ?? '';
+  }
+  return values;
+}
+
+function varyMatches(entry: CachedResponse, requestHeaders: Headers): boolean {
+  return Object.entries(entry.vary).every(([name, value]) => (requestHeaders.get(name) ?? '') === value);
+}
+
+function cacheKey(identity: string, url: string): string {
+  return `${identity}\n${url}`;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+
+import type { ResponseFormat } from './html-extract.js';
+
+export interface StoredResponse {
+  id: string;
+  url: string;
+  finalUrl: string;
+  status: number;
+  contentType: string | null;
+  format: ResponseFormat;
+  body: string;
+  storedAt: Date;
+}
+
+export interface ResponseStoreLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface ResponseMatch {
+  offset: number;
+  context: string;
+}
+
+/**
+ * Response Store
+ *
+ * Keeps recent response bodies in memory so they can be read page by page
+ * without refetching through TOR. Bounded by entry count and total size;
+ * the least recently used responses are evicted first.
+ */
+export class ResponseStore {
+  private entries = new Map<string, StoredResponse>();
+  private totalBytes = 0;
+
+  constructor(private limits: ResponseStoreLimits) {}
+
+  /**
+   * Store a response body, or return null if it is too large to keep
+   */
+  public add(response: Omit<StoredResponse, 'id' | 'storedAt'>): StoredResponse | null {
+    const entry: StoredResponse = { ...response, id: randomBytes(4).toString('hex'), storedAt: new Date() };
+    const size = Buffer.byteLength(entry.body);
+
+    if (size > this.limits.maxBytes || this.limits.maxEntries === 0) {
+      return null;
+    }
+
+    this.entries.set(entry.id, entry);
+    this.totalBytes += size;
+    this.evict();
+    return entry;
+  }
+
+  /**
+   * Look up a stored response, marking it as recently used
+   */
+  public get(id: string): StoredResponse | undefined {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.delete(id);
+      this.entries.set(id, entry);
+    }
+    return entry;
+  }
+
+  private evict(): void {
+    for (const [id, entry] of this.entries) {
+      if (this.entries.size <= this.limits.maxEntries && this.totalBytes <= this.limits.maxBytes) {
+        break;
+      }
+      this.entries.delete(id);
+      this.totalBytes -= Buffer.byteLength(entry.body);
+    }
+  }
+}
+
+/**
+ * Find case-insensitive matches of `query` in `text`, with surrounding context
+ */
+export function searchText(text: string, query: string, limit = 20, contextChars = 80): ResponseMatch[] {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const matches: ResponseMatch[] = [];
+
+  let offset = haystack.indexOf(needle);
+  while (offset !== -1 && matches.length < limit) {
+    const start = Math.max(0, offset - contextChars);
+    const end = Math.min(text.length, offset + needle.length + contextChars);
+    matches.push({
+      offset,
+      context: `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`,
+    });
+    offset = haystack.indexOf(needle, offset + Math.max(needle.length, 1));
+  }
+
+  return matches;
+}
@@ -0,0 +1,335 @@
+import { z } from 'zod';
+
+import { SOCKS_REPLIES } from './socks.js';
+
+/**
+ * Classes of network failure, from the SOCKS reply Tor gave or the error Node raised
+ */
+export const FAILURE_KINDS = [
+  'onion-descriptor-not-found',
+  'onion-descriptor-invalid',
+  'onion-introduction-failed',
+  'onion-rendezvous-failed',
+  'onion-client-auth-missing',
+  'onion-client-auth-wrong',
+  'onion-bad-address',
+  'onion-introduction-timeout',
+  'socks-general-failure',
+  'exit-policy',
+  'network-unreachable',
+  'host-unreachable',
+  'connection-refused',
+  'ttl-expired',
+  'socks-unsupported',
+  'proxy-unreachable',
+  'proxy-handshake',
+  'timeout',
+  'connection-reset',
+  'tls-certificate',
+  'tls-handshake',
+  'unknown',
+] as const;
+
+export type FailureKind = typeof FAILURE_KINDS[number];
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(3),
+  initialDelay: z.number().nonnegative().default(1),
+  maxDelay: z.number().nonnegative().default(10),
+  rotateCircuit: z.boolean().default(true),
+  retryOn: z.array(z.enum(FAILURE_KINDS)).optional(),
+}).strict();
+
+/**
+ * A classified request failure
+ *
+ * `sent` is false when the failure happened before the request could have
+ * reached the server, which makes even a POST safe to retry.
+ */
+export interface RequestFailure {
+  kind: FailureKind;
+  cause: string;
+  hint: string;
+  detail: string;
+  retryable: boolean;
+  sent: boolean;
+  socksReply?: number;
+}
+
+export interface RequestAttempt {
+  attempt: number;
+  failure: RequestFailure;
+  delay?: number;
+}
+
+interface FailureClass {
+  cause: string;
+  hint: string;
+  retryable: boolean;
+  sent: boolean;
+}
+
+const FAILURE_CLASSES: Record<FailureKind, FailureClass> = {
+  'onion-descriptor-not-found': {
+    cause: 'Onion service descriptor not found',
+    hint: 'The service is offline or the address is wrong: no hidden service directory had its descriptor.',
+    retryable: true,
+    sent: false,
+  },
+  'onion-descriptor-invalid': {
+    cause: 'Onion service descriptor is invalid',
+    hint: 'The service published a descriptor TOR could not parse or verify.',
+    retryable: false,
+    sent: false,
+  },
+  'onion-introduction-failed': {
+    cause: 'Onion service introduction failed',
+    hint: 'None of the service\'s introduction points answered. It may be overloaded or rate limiting clients.',
+    retryable: true,
+    sent: false,
+  },
+  'onion-rendezvous-failed': {
+    cause: 'Onion service rendezvous failed',
+    hint: 'The service did not complete the rendezvous. It may be overloaded.',
+    retryable: true,
+    sent: false,
+  },
+  'onion-client-auth-missing': {
+    cause: 'Onion service requires client authorization',
+    hint: 'The service only accepts authorized clients. Add its client key to TOR\'s ClientOnionAuthDir.',
+    retryable: false,
+    sent: false,
+  },
+  'onion-client-auth-wrong': {
+    cause: 'Onion service rejected the client authorization',
+    hint: 'The client key TOR has for this service is wrong or has been revoked.',
+    retryable: false,
+    sent: false,
+  },
+  'onion-bad-address': {
+    cause: 'Invalid onion address',
+    hint: 'TOR rejected the address itself. Version 3 addresses are 56 base32 characters followed by .onion.',
+    retryable: false,
+    sent: false,
+  },
+  'onion-introduction-timeout': {
+    cause: 'Onion service introduction timed out',
+    hint: 'The service\'s introduction points did not answer in time.',
+    retryable: true,
+    sent: false,
+  },
+  'socks-general-failure': {
+    cause: 'TOR could not open the connection',
+    hint: 'Usually a failed circuit; a fresh circuit often works.',
+    retryable: true,
+    sent: false,
+  },
+  'exit-policy': {
+    cause: 'Exit relay policy does not allow this destination',
+    hint: 'The exit relay does not allow this address or port. Another exit may.',
+    retryable: true,
+    sent: false,
+  },
+  'network-unreachable': {
+    cause: 'Network unreachable from the exit relay',
+    hint: 'The exit relay has no route to the destination network.',
+    retryable: true,
+    sent: false,
+  },
+  'host-unreachable': {
+    cause: 'Host unreachable or unresolvable from the exit relay',
+    hint: 'The exit relay could not resolve or reach the host. Check the host name.',
+    retryable: true,
+    sent: false,
+  },
+  'connection-refused': {
+    cause: 'Connection refused by the destination',
+    hint: 'The server is up but nothing accepts connections on that port.',
+    retryable: false,
+    sent: false,
+  },
+  'ttl-expired': {
+    cause: 'Connection through the exit relay timed out',
+    hint: 'The destination did not answer the exit relay in time.',
+    retryable: true,
+    sent: false,
+  },
+  'socks-unsupported': {
+    cause: 'TOR does not support this kind of connection',
+    hint: 'The SOCKS command or address type was refused by TOR.',
+    retryable: false,
+    sent: false,
+  },
+  'proxy-unreachable': {
+    cause: 'TOR SOCKS port unreachable',
+    hint: 'Nothing is listening on TOR\'s SOCKS port. Check that TOR is running.',
+    retryable: false,
+    sent: false,
+  },
+  'proxy-handshake': {
+    cause: 'SOCKS handshake with TOR failed',
+    hint: 'TOR\'s SOCKS port refused the handshake. Check its SocksPort settings.',
+    retryable: false,
+    sent: false,
+  },
+  'timeout': {
+    cause: 'Request timed out',
+    hint: 'Slow circuits and busy onion services are common; a fresh circuit or a longer timeout may help.',
+    retryable: true,
+    sent: true,
+  },
+  'connection-reset': {
+    cause: 'Connection closed unexpectedly',
+    hint: 'The connection was reset mid-request, by the server or a relay on the circuit.',
+    retryable: true,
+    sent: true,
+  },
+  'tls-certificate': {
+    cause: 'TLS certificate rejected',
+    hint: 'The server\'s certificate is invalid, expired, self-signed or for another name. Onion services often use self-signed certificates; their plain http URLs are already encrypted end to end.',
+    retryable: false,
+    sent: false,
+  },
+  'tls-handshake': {
+    cause: 'TLS handshake failed',
+    hint: 'The TLS connection could not be set up. A misbehaving exit relay can cause this; a fresh circuit may help.',
+    retryable: true,
+    sent: false,
+  },
+  'unknown': {
+    cause: 'Network error',
+    hint: 'The failure did not match a known cause.',
+    retryable: false,
+    sent: true,
+  },
+};
+
+const SOCKS_FAILURES: Record<number, FailureKind> = {
+  0x01: 'socks-general-failure',
+  0x02: 'exit-policy',
+  0x03: 'network-unreachable',
+  0x04: 'host-unreachable',
+  0x05: 'connection-refused',
+  0x06: 'ttl-expired',
+  0x07: 'socks-unsupported',
+  0x08: 'socks-unsupported',
+  0xf0: 'onion-descriptor-not-found',
+  0xf1: 'onion-descriptor-invalid',
+  0xf2: 'onion-introduction-failed',
+  0xf3: 'onion-rendezvous-failed',
+  0xf4: 'onion-client-auth-missing',
+  0xf5: 'onion-client-auth-wrong',
+  0xf6: 'onion-bad-address',
+  0xf7: 'onion-introduction-timeout',
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Raised when a request hop takes longer than its timeout
+ */
+export class RequestTimeoutError extends Error {
+  public readonly code = 'ETIMEDOUT';
+
+  constructor(public readonly url: string, public readonly timeout: number) {
+    super(`No response from ${url} within ${timeout} ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Raised when a request failed on every attempt it was allowed
+ */
+export class RequestFailedError extends Error {
+  constructor(public readonly failure: RequestFailure, public readonly attempts: RequestAttempt[]) {
+    super(`${failure.cause}: ${failure.detail}`);
+    this.name = 'RequestFailedError';
+  }
+}
+
+/**
+ * Classify a network error, or return null for errors that are not network failures
+ *
+ * SOCKS replies arrive as "SOCKS_XX" codes, which node-fetch copies from
+ * the agent's error onto its FetchError.
+ */
+export function classifyRequestError(error: unknown): RequestFailure | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+  const code = (error as NodeJS.ErrnoException).code;
+  if (typeof code !== 'string') {
+    return null;
+  }
+
+  const reply = /^SOCKS_([0-9A-F]{2})$/.exec(code);
+  if (reply) {
+    const socksReply = parseInt(reply[1], 16);
+    return failure(SOCKS_FAILURES[socksReply] ?? 'socks-general-failure', error, socksReply);
+  }
+
+  // The proxy stalled during the handshake, so the request never left
+  if (code === 'SOCKS_TIMEOUT') {
+    return { ...failure('timeout', error), sent: false };
+  }
+
+  return failure(kindForCode(code), error);
+}
+
+/**
+ * Whether a failed attempt should be retried under the policy
+ */
+export function shouldRetry(failure: RequestFailure, policy: RetryPolicy, method: string): boolean {
+  const retryable = policy.retryOn ? policy.retryOn.includes(failure.kind) : failure.retryable;
+  return retryable && (isIdempotent(method) || !failure.sent);
+}
+
+/**
+ * Whether repeating a request has the same effect as sending it once (RFC 9110 §9.2.2)
+ */
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Milliseconds to wait before the next attempt: exponential, with jitter
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const base = Math.min(policy.maxDelay, policy.initialDelay * 2 ** (attempt - 1)) * 1000;
+  return Math.round(base / 2 + Math.random() * base / 2);
+}
+
+/**
+ * Describe a SOCKS reply code, e.g. "0xF0 (Onion service descriptor can not be found)"
+ */
+export function describeSocksReply(reply: number): string {
+  return `0x${reply.toString(16).toUpperCase().padStart(2, '0')} (${SOCKS_REPLIES[reply] ?? 'Unknown reply code'})`;
+}
+
+function kindForCode(code: string): FailureKind {
+  if (code === 'ETIMEDOUT') {
+    return 'timeout';
+  }
+  if (code === 'SOCKS_HANDSHAKE') {
+    return 'proxy-handshake';
+  }
+  if (['ECONNREFUSED', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EADDRNOTAVAIL'].includes(code)) {
+    return 'proxy-unreachable';
+  }
+  if (['ECONNRESET', 'EPIPE', 'ECONNABORTED', 'ERR_STREAM_PREMATURE_CLOSE'].includes(code)) {
+    return 'connection-reset';
+  }
+  if (/CERT|SELF_SIGNED|UNABLE_TO_(GET|VERIFY)|HOSTNAME_MISMATCH/.test(code)) {
+    return 'tls-certificate';
+  }
+  if (/^ERR_(SSL|TLS)_|^EPROTO$/.test(code)) {
+    return 'tls-handshake';
+  }
+  return 'unknown';
+}
+
+function failure(kind: FailureKind, error: Error, socksReply?: number): RequestFailure {
+  return { kind, ...FAILURE_CLASSES[kind], detail: error.message, socksReply };
+}
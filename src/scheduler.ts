@@ -0,0 +1,291 @@
+import { z } from 'zod';
+
+import { hostMatches, hostPatternSchema } from './url-policy.js';
+
+/**
+ * Limits on how fast and how many requests `TorNetworkClient.request` sends
+ */
+export type RateLimits = z.infer<typeof rateLimitSchema>;
+
+const hostLimitSchema = z.object({
+  pattern: hostPatternSchema,
+  requestsPerMinute: z.number().positive().optional(),
+  burst: z.number().int().positive().optional(),
+  maxConcurrent: z.number().int().positive().optional(),
+}).strict();
+
+export const rateLimitSchema = z.object({
+  maxConcurrent: z.number().int().positive().default(8),
+  maxConcurrentPerHost: z.number().int().positive().default(2),
+  requestsPerMinute: z.number().positive().default(30),
+  burst: z.number().int().positive().default(5),
+  queueTimeout: z.number().int().positive().default(30),
+  maxQueued: z.number().int().nonnegative().default(100),
+  hosts: z.array(hostLimitSchema).default([]),
+  // Tor itself delays NEWNYM signals sent less than 10 seconds apart
+  newCircuitInterval: z.number().int().min(10).default(10),
+}).strict();
+
+/**
+ * Why a request had to wait:
+ * - concurrency: the global limit on requests in flight was reached
+ * - host-concurrency: the host already had its limit of requests in flight
+ * - rate-limit: the host's token bucket was empty
+ */
+export type QueueReason = 'concurrency' | 'host-concurrency' | 'rate-limit';
+
+/**
+ * Permission to send one request; release it once the response is read
+ */
+export interface Permit {
+  host: string;
+  waited: number;
+  reason?: QueueReason;
+  release(): void;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: number;
+  hosts: Array<{ host: string; active: number; tokens: number }>;
+}
+
+/**
+ * Raised when a request is refused by the scheduler without being sent
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly host: string,
+    public readonly reason: 'queue-timeout' | 'queue-full',
+    public readonly blockedBy?: QueueReason,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface HostState {
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  requestsPerMinute: number;
+  burst: number;
+  maxConcurrent: number;
+}
+
+interface Waiter {
+  host: string;
+  enqueuedAt: number;
+  blockedBy?: QueueReason;
+  resolve: (permit: Permit) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Request Scheduler
+ *
+ * Sits in front of every request: caps how many run at once overall and
+ * per host, and gives each host a token bucket that refills at
+ * `requestsPerMinute` up to `burst`. Requests that cannot start wait in a
+ * FIFO queue; a request for a free host never waits behind one for a
+ * busy host. Waiting ends with a RateLimitError after the queue timeout.
+ */
+export class RequestScheduler {
+  private active = 0;
+  private queue: Waiter[] = [];
+  private hosts = new Map<string, HostState>();
+  private refillTimer: NodeJS.Timeout | null = null;
+
+  constructor(private limits: RateLimits) {}
+
+  /**
+   * Wait for a slot to send a request to `host`
+   *
+   * `queueTimeout` is in milliseconds and defaults to the configured one.
+   */
+  public acquire(host: string, queueTimeout = this.limits.queueTimeout * 1000): Promise<Permit> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { host: host.toLowerCase(), enqueuedAt: Date.now(), resolve, reject };
+      this.queue.push(waiter);
+      this.pump();
+
+      if (!this.queue.includes(waiter)) {
+        return;
+      }
+      if (this.queue.length > this.limits.maxQueued) {
+        this.remove(waiter);
+        reject(new RateLimitError(
+          `Too many requests are queued (limit ${this.limits.maxQueued}); ${waiter.host} was not contacted`,
+          waiter.host,
+          'queue-full',
+          waiter.blockedBy,
+          this.retryAfter(waiter)
+        ));
+        return;
+      }
+
+      waiter.timer = setTimeout(() => {
+        this.remove(waiter);
+        reject(new RateLimitError(
+          `Request to ${waiter.host} waited ${(queueTimeout / 1000).toFixed(1)} s in the queue without being sent`,
+          waiter.host,
+          'queue-timeout',
+          waiter.blockedBy,
+          this.retryAfter(waiter)
+        ));
+      }, queueTimeout);
+    });
+  }
+
+  public stats(): SchedulerStats {
+    const now = Date.now();
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      hosts: [...this.hosts].map(([host, state]) => ({
+        host,
+        active: state.active,
+        tokens: Math.floor(this.refill(state, now)),
+      })),
+    };
+  }
+
+  /**
+   * Start every queued request that is allowed to run, in arrival order
+   */
+  private pump(): void {
+    const now = Date.now();
+
+    for (const waiter of [...this.queue]) {
+      if (this.active >= this.limits.maxConcurrent) {
+        waiter.blockedBy = 'concurrency';
+        continue;
+      }
+
+      const state = this.hostState(waiter.host);
+      if (state.active >= state.maxConcurrent) {
+        waiter.blockedBy = 'host-concurrency';
+        continue;
+      }
+      if (this.refill(state, now) < 1) {
+        waiter.blockedBy = 'rate-limit';
+        continue;
+      }
+
+      state.tokens -= 1;
+      state.active++;
+      this.active++;
+      this.remove(waiter);
+      waiter.resolve(this.permit(waiter, state, now));
+    }
+
+    this.pruneHosts(now);
+    this.scheduleRefill(now);
+  }
+
+  private permit(waiter: Waiter, state: HostState, now: number): Permit {
+    let released = false;
+    return {
+      host: waiter.host,
+      waited: now - waiter.enqueuedAt,
+      reason: waiter.blockedBy,
+      release: (): void => {
+        if (released) {
+          return;
+        }
+        released = true;
+        state.active--;
+        this.active--;
+        this.pump();
+      },
+    };
+  }
+
+  private remove(waiter: Waiter): void {
+    clearTimeout(waiter.timer);
+    const index = this.queue.indexOf(waiter);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      const override = this.limits.hosts.find(limit => hostMatches(host, limit.pattern));
+      const burst = override?.burst ?? this.limits.burst;
+      state = {
+        tokens: burst,
+        refilledAt: Date.now(),
+        active: 0,
+        requestsPerMinute: override?.requestsPerMinute ?? this.limits.requestsPerMinute,
+        burst,
+        maxConcurrent: override?.maxConcurrent ?? this.limits.maxConcurrentPerHost,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private refill(state: HostState, now: number): number {
+    state.tokens = Math.min(state.burst, state.tokens + (now - state.refilledAt) * state.requestsPerMinute / 60000);
+    state.refilledAt = now;
+    return state.tokens;
+  }
+
+  /**
+   * Milliseconds until a host's bucket holds a whole token again
+   */
+  private untilToken(state: HostState): number {
+    return Math.max(0, Math.ceil((1 - state.tokens) * 60000 / state.requestsPerMinute));
+  }
+
+  private retryAfter(waiter: Waiter): number | undefined {
+    const state = this.hosts.get(waiter.host);
+    if (waiter.blockedBy !== 'rate-limit' || !state) {
+      return undefined;
+    }
+    this.refill(state, Date.now());
+    return this.untilToken(state);
+  }
+
+  /**
+   * Wake the queue when the next rate-limited host gets a token back
+   */
+  private scheduleRefill(now: number): void {
+    if (this.refillTimer) {
+      clearTimeout(this.refillTimer);
+      this.refillTimer = null;
+    }
+
+    const delays = this.queue
+      .filter(waiter => waiter.blockedBy === 'rate-limit')
+      .map(waiter => {
+        const state = this.hostState(waiter.host);
+        this.refill(state, now);
+        return this.untilToken(state);
+      });
+    if (delays.length === 0) {
+      return;
+    }
+
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.pump();
+    }, Math.max(10, Math.min(...delays)));
+  }
+
+  /**
+   * Forget idle hosts whose buckets are full again; they would start out the same
+   */
+  private pruneHosts(now: number): void {
+    for (const [host, state] of this.hosts) {
+      if (state.active === 0 && this.refill(state, now) >= state.burst && !this.queue.some(waiter => waiter.host === host)) {
+        this.hosts.delete(host);
+      }
+    }
+  }
+}
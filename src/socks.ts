@@ -0,0 +1,207 @@
+import { type Socket, isIP, connect as netConnect } from 'net';
+import type { ClientRequest } from 'http';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { connect as tlsConnect } from 'tls';
+
+type ConnectOptions = Parameters<SocksProxyAgent['connect']>[1];
+
+/**
+ * SOCKS5 reply codes (RFC 1928 §6), plus the onion service codes Tor sends
+ * on a SocksPort with the ExtendedErrors flag
+ */
+export const SOCKS_REPLIES: Record<number, string> = {
+  0x01: 'General SOCKS server failure',
+  0x02: 'Connection not allowed by ruleset',
+  0x03: 'Network unreachable',
+  0x04: 'Host unreachable',
+  0x05: 'Connection refused',
+  0x06: 'TTL expired',
+  0x07: 'Command not supported',
+  0x08: 'Address type not supported',
+  0xf0: 'Onion service descriptor can not be found',
+  0xf1: 'Onion service descriptor is invalid',
+  0xf2: 'Onion service introduction failed',
+  0xf3: 'Onion service rendezvous failed',
+  0xf4: 'Onion service missing client authorization',
+  0xf5: 'Onion service wrong client authorization',
+  0xf6: 'Onion service invalid address',
+  0xf7: 'Onion service introduction timed out',
+};
+
+// Onion service connections can take a minute or more to set up
+const DEFAULT_HANDSHAKE_TIMEOUT = 120000;
+
+/**
+ * Raised when the SOCKS proxy refuses a CONNECT with a non-zero reply code
+ *
+ * `code` is "SOCKS_" followed by the reply in hex, so it survives
+ * node-fetch wrapping the error in a FetchError.
+ */
+export class SocksReplyError extends Error {
+  public readonly code: string;
+
+  constructor(public readonly reply: number, public readonly target: string) {
+    const hex = reply.toString(16).toUpperCase().padStart(2, '0');
+    super(`SOCKS reply 0x${hex} for ${target}: ${SOCKS_REPLIES[reply] ?? 'Unknown reply code'}`);
+    this.name = 'SocksReplyError';
+    this.code = `SOCKS_${hex}`;
+  }
+}
+
+/**
+ * Raised when the SOCKS handshake itself fails (no usable auth method, bad credentials, no answer)
+ */
+export class SocksHandshakeError extends Error {
+  constructor(message: string, public readonly code: 'SOCKS_HANDSHAKE' | 'SOCKS_TIMEOUT' = 'SOCKS_HANDSHAKE') {
+    super(message);
+    this.name = 'SocksHandshakeError';
+  }
+}
+
+/**
+ * SOCKS agent that keeps the proxy's reply code
+ *
+ * The socks package reports Tor's extended onion service codes as
+ * "undefined", so this agent performs the SOCKS5 handshake itself and
+ * fails with a SocksReplyError carrying the exact code.
+ */
+export class ExtendedSocksProxyAgent extends SocksProxyAgent {
+  public override async connect(req: ClientRequest, opts: ConnectOptions): Promise<Socket> {
+    if (!opts.host) {
+      throw new Error('No `host` defined!');
+    }
+
+    const socket = await socksConnect(
+      { host: this.proxy.host ?? this.proxy.ipaddress ?? '127.0.0.1', port: this.proxy.port },
+      this.proxy.userId !== undefined ? { username: this.proxy.userId, password: this.proxy.password ?? '' } : null,
+      opts.host,
+      Number(opts.port),
+      this.timeout ?? DEFAULT_HANDSHAKE_TIMEOUT,
+      req
+    );
+
+    if (!opts.secureEndpoint) {
+      return socket;
+    }
+
+    // With an existing socket, host, port and path are not used to connect
+    const tlsSocket = tlsConnect({
+      ...opts,
+      servername: opts.servername ?? (isIP(opts.host) === 0 ? opts.host : undefined),
+      socket,
+    });
+    tlsSocket.once('error', () => {
+      req.destroy();
+      socket.destroy();
+      tlsSocket.destroy();
+    });
+    return tlsSocket;
+  }
+}
+
+/**
+ * Open a SOCKS5 CONNECT tunnel to `host:port`, leaving name resolution to the proxy
+ */
+async function socksConnect(
+  proxy: { host: string; port: number },
+  credentials: { username: string; password: string } | null,
+  host: string,
+  port: number,
+  timeout: number,
+  req: ClientRequest
+): Promise<Socket> {
+  const socket = netConnect(proxy.port, proxy.host);
+  const abort = (): void => {
+    socket.destroy();
+  };
+  // Errors reach the pending read through its own listener; this one only keeps them from going unhandled
+  const ignore = (): void => {};
+  socket.on('error', ignore);
+  socket.setTimeout(timeout, () => socket.destroy(new SocksHandshakeError(`SOCKS proxy did not answer within ${timeout} ms`, 'SOCKS_TIMEOUT')));
+  req.once('close', abort);
+
+  try {
+    // Written once connected; a proxy that cannot be reached fails the first read
+    socket.write(Buffer.from([0x05, 0x01, credentials ? 0x02 : 0x00]));
+    const [, method] = await readBytes(socket, 2);
+    if (method === 0xff) {
+      throw new SocksHandshakeError('SOCKS proxy accepted none of the offered authentication methods');
+    }
+
+    if (method === 0x02 && credentials) {
+      const username = Buffer.from(credentials.username);
+      const password = Buffer.from(credentials.password);
+      socket.write(Buffer.concat([
+        Buffer.from([0x01, username.length]), username, Buffer.from([password.length]), password,
+      ]));
+      const [, status] = await readBytes(socket, 2);
+      if (status !== 0x00) {
+        throw new SocksHandshakeError('SOCKS proxy rejected the username and password');
+      }
+    }
+
+    // Addresses always go as names (IP literals included) so Tor resolves and checks them itself
+    const name = Buffer.from(host.replace(/^\[|\]$/g, ''));
+    if (name.length > 255) {
+      throw new SocksHandshakeError(`Host name too long for SOCKS: ${host}`);
+    }
+    socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00, 0x03, name.length]), name, Buffer.from([port >> 8, port & 0xff])]));
+    const [, reply, , addressType] = await readBytes(socket, 4);
+    if (reply !== 0x00) {
+      throw new SocksReplyError(reply, `${host}:${port}`);
+    }
+
+    // Skip the bound address and port
+    const addressLength = addressType === 0x01 ? 4 : addressType === 0x04 ? 16 : (await readBytes(socket, 1))[0];
+    await readBytes(socket, addressLength + 2);
+
+    socket.setTimeout(0);
+    return socket;
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  } finally {
+    req.off('close', abort);
+    socket.off('error', ignore);
+  }
+}
+
+/**
+ * Wait until `size` bytes can be read from a paused socket
+ */
+function readBytes(socket: Socket, size: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    if (socket.destroyed) {
+      reject(new SocksHandshakeError('SOCKS proxy closed the connection during the handshake'));
+      return;
+    }
+
+    const cleanup = (): void => {
+      socket.off('readable', attempt);
+      socket.off('end', onEnd);
+      socket.off('close', onEnd);
+      socket.off('error', onError);
+    };
+    const attempt = (): void => {
+      const chunk = socket.read(size) as Buffer | null;
+      if (chunk) {
+        cleanup();
+        resolve(chunk);
+      }
+    };
+    const onEnd = (): void => {
+      cleanup();
+      reject(new SocksHandshakeError('SOCKS proxy closed the connection during the handshake'));
+    };
+    const onError = (error: Error): void => {
+      cleanup();
+      reject(error);
+    };
+
+    socket.on('readable', attempt);
+    socket.once('end', onEnd);
+    socket.once('close', onEnd);
+    socket.once('error', onError);
+    attempt();
+  });
+}
@@ -0,0 +1,483 @@
+import { CACHE_MODES } from './response-cache.js';
+import { FAILURE_KINDS } from './retry.js';
+import { z } from 'zod';
+
+/**
+ * How tool results are returned:
+ * - text: markdown only, as read by a model
+ * - structured: `structuredContent` matching the tool's output schema, with its JSON as the text
+ * - both: markdown text plus `structuredContent`
+ */
+export const OUTPUT_MODES = ['text', 'structured', 'both'] as const;
+
+export type OutputMode = typeof OUTPUT_MODES[number];
+
+export const outputModeSchema = z.enum(OUTPUT_MODES);
+
+export type ToolContent = { type: "text"; text: string } | { type: "image"; data: string; mimeType: string };
+
+export type StructuredData = Record<string, unknown>;
+
+export interface ToolResult {
+  [key: string]: unknown;
+  content: ToolContent[];
+  structuredContent?: StructuredData;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const string: JsonSchema = { type: 'string' };
+const integer: JsonSchema = { type: 'integer' };
+const number: JsonSchema = { type: 'number' };
+const boolean: JsonSchema = { type: 'boolean' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+
+function object(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+function array(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+function oneOf(values: readonly string[]): JsonSchema {
+  return { type: 'string', enum: [...values] };
+}
+
+function withError(properties: Record<string, JsonSchema>, errorTypes: string[], errorDetails: Record<string, JsonSchema> = {}): JsonSchema {
+  return object({
+    ...properties,
+    error: object({ type: oneOf(errorTypes), message: string, ...errorDetails }, ['type', 'message']),
+  });
+}
+
+const failure = object({
+  kind: oneOf(FAILURE_KINDS),
+  cause: string,
+  retryable: boolean,
+  socksReply: integer,
+  detail: string,
+  hint: string,
+}, ['kind', 'cause', 'retryable']);
+
+const attempt = object({ attempt: integer, failure, delay: integer }, ['attempt', 'failure']);
+
+const redirect = object({ status: integer, url: string, location: string }, ['status', 'url', 'location']);
+
+const queueReason = oneOf(['concurrency', 'host-concurrency', 'rate-limit']);
+
+const exitVerification = object({
+  verified: boolean,
+  ip: string,
+  isTor: boolean,
+  endpoint: string,
+  error: string,
+  checkedAt: dateTime,
+  cached: boolean,
+}, ['verified', 'checkedAt', 'cached']);
+
+const nodePolicy = object({
+  exitNodes: array(string),
+  entryNodes: array(string),
+  excludeNodes: array(string),
+  excludeExitNodes: array(string),
+  strictNodes: boolean,
+});
+
+const circuit = object({
+  circuitId: string,
+  status: string,
+  purpose: string,
+  onionService: string,
+  buildFlags: array(string),
+  timeCreated: dateTime,
+  path: array(object({ nickname: string, fingerprint: string })),
+}, ['circuitId', 'status', 'buildFlags', 'path']);
+
+const onionProblem = oneOf(['not-onion', 'v2-address', 'length', 'base32', 'version', 'checksum', 'public-key']);
+
+const namedService = object({ name: string, url: string }, ['name', 'url']);
+
+const onionServiceFields = {
+  name: string,
+  url: string,
+  address: string,
+  description: string,
+  category: string,
+  tags: array(string),
+  verified: boolean,
+  source: string,
+  addedAt: dateTime,
+  updatedAt: dateTime,
+  signature: string,
+  fingerprint: string,
+};
+
+const onionServiceRequired = ['name', 'url', 'address', 'description', 'category', 'tags', 'verified', 'source'];
+
+const onionService = object(onionServiceFields, onionServiceRequired);
+
+const tls = object({
+  protocol: string,
+  authorized: boolean,
+  authorizationError: string,
+  subject: string,
+  issuer: string,
+  selfSigned: boolean,
+  validFrom: dateTime,
+  validTo: dateTime,
+  fingerprint256: string,
+}, ['authorized', 'selfSigned']);
+
+const healthState = oneOf(['up', 'down', 'unreachable', 'unknown']);
+
+const serviceHealth = {
+  url: string,
+  up: boolean,
+  checkedAt: dateTime,
+  lastSeen: dateTime,
+  downSince: dateTime,
+  failures: integer,
+  latency: integer,
+  httpStatus: integer,
+  failure: object({ kind: oneOf(FAILURE_KINDS), cause: string }, ['kind', 'cause']),
+  tls,
+};
+
+const registryErrors = ['duplicate', 'not-found', 'invalid', 'error'];
+
+const publishedService = object({
+  serviceId: string,
+  url: string,
+  virtualPort: integer,
+  target: string,
+  keyName: string,
+  authorizedClients: integer,
+  publishedAt: dateTime,
+}, ['serviceId', 'url', 'virtualPort', 'target', 'authorizedClients', 'publishedAt']);
+
+const publishingErrors = ['target-not-allowed', 'limit', 'duplicate', 'not-found', 'invalid', 'key-file', 'tor', 'error'];
+
+const scope = {
+  scope: oneOf(['all', 'shared', 'identity']),
+  identity: string,
+};
+
+/**
+ * Output schemas of every tool, keyed by tool name
+ *
+ * Every result may carry an `error` object instead of the tool's usual
+ * fields; `identity` is left out for the shared (default) identity.
+ */
+export const OUTPUT_SCHEMAS: Record<string, JsonSchema> = {
+  tor_request: withError({
+    url: string,
+    finalUrl: string,
+    method: string,
+    status: integer,
+    statusText: string,
+    network: oneOf(['onion', 'clearnet']),
+    identity: string,
+    contentType: string,
+    sniffed: boolean,
+    size: integer,
+    responseId: string,
+    headers: { type: 'object', additionalProperties: string },
+    requestHeaders: array(object({ name: string, value: string }, ['name', 'value'])),
+    strippedHeaders: array(string),
+    redirects: array(redirect),
+    cache: object({
+      status: oneOf(['hit', 'stale', 'revalidated', 'miss', 'bypass']),
+      stored: boolean,
+      storedAt: dateTime,
+      expiresAt: dateTime,
+    }, ['status', 'stored']),
+    attempts: integer,
+    failedAttempts: array(attempt),
+    queue: object({ waited: integer, reason: queueReason }, ['waited']),
+    cookies: object({ sent: integer, stored: integer }, ['sent', 'stored']),
+    onionLocation: object({
+      url: string,
+      origin: string,
+      onionOrigin: string,
+      source: oneOf(['header', 'meta']),
+      registered: oneOf(['added', 'known']),
+    }, ['url', 'origin', 'onionOrigin', 'source']),
+    onionUpgrade: object({ from: string, to: string, fellBack: boolean, failure: string }, ['from', 'to']),
+    body: object({
+      kind: oneOf(['text', 'pdf', 'image', 'binary']),
+      format: string,
+      text: string,
+      totalLength: integer,
+      truncated: boolean,
+      inline: boolean,
+      sha256: string,
+      base64: string,
+      savedTo: string,
+    }, ['kind']),
+  }, ['cache-miss', 'request-failed', 'rate-limited', 'policy', 'invalid-onion', 'redirect', 'error'], {
+    failure,
+    attempts: array(attempt),
+    host: string,
+    reason: oneOf(['queue-timeout', 'queue-full']),
+    blockedBy: queueReason,
+    retryAfter: integer,
+    rule: string,
+    blockedUrl: string,
+    violation: string,
+    redirects: array(redirect),
+    cacheMode: oneOf(CACHE_MODES),
+    problem: onionProblem,
+  }),
+
+  read_tor_response: withError({
+    responseId: string,
+    url: string,
+    status: integer,
+    format: string,
+    fetchedAt: dateTime,
+    totalLength: integer,
+    search: string,
+    matches: array(object({ offset: integer, page: integer, context: string }, ['offset', 'page', 'context'])),
+    offset: integer,
+    end: integer,
+    page: integer,
+    pageCount: integer,
+    text: string,
+    next: integer,
+  }, ['not-found']),
+
+  check_tor_connection: withError({
+    connected: boolean,
+    method: oneOf(['control-port', 'endpoint']),
+    exit: exitVerification,
+    torVersion: string,
+    circuitEstablished: boolean,
+    lastCircuitTime: dateTime,
+    errors: array(string),
+  }, ['error']),
+
+  get_tor_status: withError({
+    connected: boolean,
+    circuitEstablished: boolean,
+    currentIP: string,
+    exitVerified: boolean,
+    exitCheckedAt: dateTime,
+    verificationMethod: oneOf(['control-port', 'endpoint']),
+    torVersion: string,
+    circuitCount: integer,
+    lastCircuitTime: dateTime,
+    bytesRead: integer,
+    bytesWritten: integer,
+    lastWarning: string,
+    transport: string,
+    activeBridge: string,
+    nodePolicy,
+    requests: object({ active: integer, queued: integer }, ['active', 'queued']),
+    quality: string,
+  }, ['error']),
+
+  get_tor_bootstrap: withError({
+    available: boolean,
+    complete: boolean,
+    progress: integer,
+    tag: string,
+    summary: string,
+    warning: string,
+    reason: string,
+    host: string,
+    recommendation: string,
+    updatedAt: dateTime,
+  }, ['error']),
+
+  new_tor_circuit: withError({
+    status: oneOf(['built', 'requested', 'rate-limited']),
+    reason: string,
+    circuitId: string,
+    retryAfter: integer,
+    ip: string,
+    requestedAt: dateTime,
+  }, ['error']),
+
+  list_tor_circuits: withError({
+    circuits: array(circuit),
+  }, ['error']),
+
+  close_tor_circuit: withError({
+    circuitId: string,
+    closed: boolean,
+    ifUnused: boolean,
+  }, ['error']),
+
+  set_exit_policy: withError({
+    policy: nodePolicy,
+    newCircuit: boolean,
+  }, ['invalid', 'error'], { field: string }),
+
+  list_tor_identities: object({
+    identities: array(object({
+      name: string,
+      createdAt: dateTime,
+      renewedAt: dateTime,
+      lastUsed: dateTime,
+      requestCount: integer,
+    }, ['name', 'createdAt', 'requestCount'])),
+  }, ['identities']),
+
+  reset_tor_identity: withError({
+    identity: string,
+    action: oneOf(['renewed', 'removed']),
+    found: boolean,
+    renewedAt: dateTime,
+  }, ['error']),
+
+  clear_tor_cache: withError({
+    ...scope,
+    removed: integer,
+    enabled: boolean,
+    remaining: object({ entries: integer, bytes: integer }, ['entries', 'bytes']),
+  }, ['error']),
+
+  list_tor_cookies: object({
+    jars: array(object({
+      identity: string,
+      cookies: array(object({
+        name: string,
+        value: string,
+        domain: string,
+        hostOnly: boolean,
+        path: string,
+        expires: dateTime,
+        secure: boolean,
+        httpOnly: boolean,
+        sameSite: string,
+        createdAt: dateTime,
+        lastAccessed: dateTime,
+      }, ['name', 'value', 'domain', 'hostOnly', 'path', 'secure', 'httpOnly'])),
+    }, ['cookies'])),
+  }, ['jars']),
+
+  clear_tor_cookies: object({
+    ...scope,
+    domain: string,
+    removed: integer,
+  }, ['scope', 'removed']),
+
+  validate_onion_address: withError({
+    input: string,
+    valid: boolean,
+    address: string,
+    host: string,
+    subdomain: string,
+    url: string,
+    version: integer,
+    publicKey: string,
+    checksum: string,
+    knownService: namedService,
+    lookalike: namedService,
+  }, ['invalid-onion'], { host: string, problem: onionProblem }),
+
+  search_onion_services: withError({
+    query: string,
+    category: string,
+    results: array(object({
+      ...onionServiceFields,
+      score: number,
+      health: object({ state: healthState, ...serviceHealth }, ['state']),
+    }, [...onionServiceRequired, 'health'])),
+    hidden: integer,
+    categories: array(object({ category: string, count: integer }, ['category', 'count'])),
+  }, ['error']),
+
+  probe_onion_services: object({
+    results: array(object({
+      name: string,
+      url: string,
+      address: string,
+      state: healthState,
+      skipped: string,
+      health: object(serviceHealth, ['url', 'up', 'checkedAt', 'failures']),
+    }, ['name', 'url', 'address', 'state'])),
+    notFound: array(string),
+  }, ['results', 'notFound']),
+
+  add_onion_service: withError({ service: onionService }, registryErrors),
+
+  update_onion_service: withError({ service: onionService }, registryErrors),
+
+  remove_onion_service: withError({ service: onionService }, registryErrors),
+
+  publish_onion_service: withError({
+    service: publishedService,
+    keyCreated: boolean,
+    clientKeys: array(object({ publicKey: string, privateKey: string, authFileLine: string }, ['publicKey', 'privateKey', 'authFileLine'])),
+  }, publishingErrors, { status: integer }),
+
+  list_published_onion_services: withError({
+    services: array(publishedService),
+    unmanaged: array(string),
+  }, publishingErrors, { status: integer }),
+
+  unpublish_onion_service: withError({
+    service: publishedService,
+    keyDeleted: boolean,
+  }, publishingErrors, { status: integer }),
+};
+
+/**
+ * Add the `output` argument to a tool's input schema, and its output schema
+ * unless the server only returns text by default
+ */
+export function describeOutput<T extends { name: string; inputSchema: { properties: object } }>(tool: T, mode: OutputMode): T {
+  const outputSchema = OUTPUT_SCHEMAS[tool.name];
+  if (!outputSchema) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        output: {
+          type: "string",
+          enum: [...OUTPUT_MODES],
+          description: mode === 'text'
+            ? `Return markdown text, structured JSON, or both (default: ${mode})`
+            : `Return markdown text, the structured JSON as text, or both; results always carry structured content matching the output schema (default: ${mode})`,
+        },
+      },
+    },
+    ...(mode === 'text' ? {} : { outputSchema }),
+  };
+}
+
+/**
+ * Build a tool result for the output mode
+ *
+ * Dates in `data` become ISO strings and undefined fields are dropped. In
+ * structured mode the text is the JSON itself, so clients that only read
+ * text content still get the data. Images are always kept.
+ *
+ * A tool that declares an output schema must return conforming structured
+ * content, so while `schemaDeclared` is set, text mode only changes the
+ * text block.
+ */
+export function toolResult(
+  mode: OutputMode,
+  text: string,
+  data: StructuredData,
+  extra: ToolContent[] = [],
+  schemaDeclared = mode !== 'text'
+): ToolResult {
+  if (mode === 'text' && !schemaDeclared) {
+    return { content: [{ type: "text", text }, ...extra] };
+  }
+
+  const structuredContent = JSON.parse(JSON.stringify(data)) as StructuredData;
+  return {
+    content: [{ type: "text", text: mode === 'structured' ? JSON.stringify(structuredContent, null, 2) : text }, ...extra],
+    structuredContent,
+  };
+}
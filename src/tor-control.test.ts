@@ -0,0 +1,147 @@
+import { type AddressInfo, type Server, type Socket, createServer } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { createHmac, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+import { ControlReplyParser, TorControlConnection, parseKeyValues, unquote } from './tor-control.js';
+import assert from 'assert/strict';
+
+describe('ControlReplyParser', () => {
+  it('collects mid-reply lines until the end-of-reply line', () => {
+    const parser = new ControlReplyParser();
+    const [reply] = parser.push('250-PROTOCOLINFO 1\r\n250-VERSION Tor="0.4.8.10"\r\n250 OK\r\n');
+
+    assert.equal(reply.status, 250);
+    assert.deepEqual(reply.lines.map(line => [line.separator, line.text]), [
+      ['-', 'PROTOCOLINFO 1'],
+      ['-', 'VERSION Tor="0.4.8.10"'],
+      [' ', 'OK'],
+    ]);
+  });
+
+  it('reassembles replies split across chunks', () => {
+    const parser = new ControlReplyParser();
+
+    assert.deepEqual(parser.push('250-version=0.4'), []);
+    assert.deepEqual(parser.push('.8.10\r\n250 O'), []);
+    const replies = parser.push('K\r\n650 CIRC 5 BUILT\r\n');
+
+    assert.equal(replies.length, 2);
+    assert.equal(replies[0].lines[0].text, 'version=0.4.8.10');
+    assert.equal(replies[1].status, 650);
+  });
+
+  it('reads data blocks up to the lone dot and unescapes leading dots', () => {
+    const parser = new ControlReplyParser();
+    const [reply] = parser.push('250+circuit-status=\r\n1 BUILT $AAAA~a\r\n..dot\r\n.\r\n250 OK\r\n');
+
+    assert.equal(reply.lines[0].separator, '+');
+    assert.equal(reply.lines[0].data, '1 BUILT $AAAA~a\n.dot');
+    assert.equal(reply.lines[1].text, 'OK');
+  });
+
+  it('rejects lines without a status code', () => {
+    assert.throws(() => new ControlReplyParser().push('OK\r\n'), /Malformed control reply line/);
+  });
+});
+
+describe('parseKeyValues', () => {
+  it('reads bare and quoted values', () => {
+    assert.deepEqual(parseKeyValues('AUTH METHODS=COOKIE,SAFECOOKIE COOKIEFILE="/var/run/tor/control.authcookie"'), {
+      METHODS: 'COOKIE,SAFECOOKIE',
+      COOKIEFILE: '/var/run/tor/control.authcookie',
+    });
+  });
+
+  it('decodes escapes in quoted strings', () => {
+    assert.equal(unquote('"a \\"quoted\\" \\\\ path\\n"'), 'a "quoted" \\ path\n');
+    assert.deepEqual(parseKeyValues('KEY="with space" OTHER=x'), { KEY: 'with space', OTHER: 'x' });
+  });
+});
+
+describe('SAFECOOKIE authentication', () => {
+  const cookie = randomBytes(32);
+  let cookieFile: string;
+  let server: Server;
+  let port: number;
+  let tamperServerHash = false;
+  let authenticated = false;
+
+  const hmac = (key: string, message: Buffer): string => createHmac('sha256', key).update(message).digest('hex');
+
+  // Speaks just enough of the control protocol to authenticate
+  const handle = (socket: Socket, line: string, state: { message?: Buffer }): void => {
+    const [command, ...args] = line.split(' ');
+    if (command === 'PROTOCOLINFO') {
+      socket.write(`250-PROTOCOLINFO 1\r\n250-AUTH METHODS=COOKIE,SAFECOOKIE COOKIEFILE="${cookieFile}"\r\n250 OK\r\n`);
+    } else if (command === 'AUTHCHALLENGE') {
+      const serverNonce = randomBytes(32);
+      state.message = Buffer.concat([cookie, Buffer.from(args[1], 'hex'), serverNonce]);
+      const serverHash = tamperServerHash ? randomBytes(32).toString('hex') : hmac('Tor safe cookie authentication server-to-controller hash', state.message);
+      socket.write(`250 AUTHCHALLENGE SERVERHASH=${serverHash} SERVERNONCE=${serverNonce.toString('hex')}\r\n`);
+    } else if (command === 'AUTHENTICATE' && state.message && args[0] === hmac('Tor safe cookie authentication controller-to-server hash', state.message)) {
+      authenticated = true;
+      socket.write('250 OK\r\n');
+    } else {
+      socket.write('515 Authentication failed\r\n');
+    }
+  };
+
+  before(async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'tor-control-test-'));
+    cookieFile = join(directory, 'control_auth_cookie');
+    await fs.writeFile(cookieFile, cookie);
+
+    server = createServer(socket => {
+      const state: { message?: Buffer } = {};
+      let buffer = '';
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let newline = buffer.indexOf('\r\n');
+        while (newline !== -1) {
+          handle(socket, buffer.slice(0, newline), state);
+          buffer = buffer.slice(newline + 2);
+          newline = buffer.indexOf('\r\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(join(cookieFile, '..'), { recursive: true, force: true });
+  });
+
+  it('answers the challenge with the controller-to-server hash', async () => {
+    tamperServerHash = false;
+    authenticated = false;
+    const connection = new TorControlConnection({ port });
+    await connection.connect();
+    try {
+      await connection.authenticate();
+    } finally {
+      connection.close();
+    }
+
+    assert.equal(authenticated, true);
+  });
+
+  it('refuses to authenticate when the server hash does not match the cookie', async () => {
+    tamperServerHash = true;
+    authenticated = false;
+    const connection = new TorControlConnection({ port });
+    await connection.connect();
+    try {
+      await assert.rejects(connection.authenticate(), /server hash mismatch/);
+    } finally {
+      connection.close();
+    }
+
+    assert.equal(authenticated, false);
+  });
+});
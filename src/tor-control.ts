@@ -0,0 +1,447 @@
+import { Socket, createConnection } from 'net';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+
+export interface ControlReplyLine {
+  status: number;
+  separator: '-' | '+' | ' ';
+  text: string;
+  data?: string;
+}
+
+export interface ControlReply {
+  status: number;
+  lines: ControlReplyLine[];
+}
+
+export interface TorControlOptions {
+  host?: string;
+  port: number;
+  password?: string;
+  cookieAuthFile?: string;
+  timeout?: number;
+}
+
+export interface ProtocolInfo {
+  protocolVersion: number;
+  authMethods: string[];
+  cookieFile?: string;
+  torVersion?: string;
+}
+
+/**
+ * Raised when Tor answers a control command with a 4xx/5xx status
+ */
+export class TorControlError extends Error {
+  constructor(message: string, public readonly status: number, public readonly reply?: ControlReply) {
+    super(message);
+    this.name = 'TorControlError';
+  }
+}
+
+const SAFECOOKIE_SERVER_KEY = 'Tor safe cookie authentication server-to-controller hash';
+const SAFECOOKIE_CLIENT_KEY = 'Tor safe cookie authentication controller-to-server hash';
+
+/**
+ * Incremental parser for control-port replies (control-spec section 2.3)
+ *
+ * Handles mid-reply lines ("250-"), data blocks ("250+" terminated by a
+ * lone "."), and end-of-reply lines ("250 ").
+ */
+export class ControlReplyParser {
+  private buffer = '';
+  private lines: ControlReplyLine[] = [];
+  private dataLine: ControlReplyLine | null = null;
+  private dataLines: string[] = [];
+
+  /**
+   * Feed raw socket data, returning every reply completed by it
+   */
+  public push(chunk: string): ControlReply[] {
+    this.buffer += chunk;
+    const replies: ControlReply[] = [];
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+
+      const reply = this.handleLine(line);
+      if (reply) {
+        replies.push(reply);
+      }
+
+      newline = this.buffer.indexOf('\n');
+    }
+
+    return replies;
+  }
+
+  private handleLine(line: string): ControlReply | null {
+    if (this.dataLine) {
+      if (line === '.') {
+        this.dataLine.data = this.dataLines.join('\n');
+        this.dataLine = null;
+        this.dataLines = [];
+      } else {
+        // Leading dots are escaped by doubling them
+        this.dataLines.push(line.startsWith('.') ? line.slice(1) : line);
+      }
+      return null;
+    }
+
+    const match = /^(\d{3})([ +-])(.*)$/.exec(line);
+    if (!match) {
+      throw new Error(`Malformed control reply line: ${line}`);
+    }
+
+    const replyLine: ControlReplyLine = {
+      status: Number(match[1]),
+      separator: match[2] as ControlReplyLine['separator'],
+      text: match[3],
+    };
+    this.lines.push(replyLine);
+
+    if (replyLine.separator === '+') {
+      this.dataLine = replyLine;
+      return null;
+    }
+
+    if (replyLine.separator === ' ') {
+      const reply = { status: replyLine.status, lines: this.lines };
+      this.lines = [];
+      return reply;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Parse space separated KEY=VALUE pairs, where values may be quoted strings
+ */
+export function parseKeyValues(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const pattern = /([A-Za-z0-9_/.-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+  let match = pattern.exec(text);
+  while (match) {
+    result[match[1]] = match[2].startsWith('"') ? unquote(match[2]) : match[2];
+    match = pattern.exec(text);
+  }
+
+  return result;
+}
+
+/**
+ * Decode a control-protocol QuotedString
+ */
+export function unquote(value: string): string {
+  if (!value.startsWith('"') || !value.endsWith('"')) {
+    return value;
+  }
+
+  return value.slice(1, -1).replace(/\\(.)/g, (_match, char: string) => {
+    switch (char) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      default: return char;
+    }
+  });
+}
+
+/**
+ * Encode a string as a control-protocol QuotedString
+ */
+export function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Produce a HashedControlPassword value for torrc, equivalent to `tor --hash-password`
+ */
+export function hashControlPassword(password: string): string {
+  const salt = randomBytes(8);
+  const indicator = 0x60;
+  const expBias = 6;
+  let count = (16 + (indicator & 15)) << ((indicator >> 4) + expBias);
+
+  const secret = Buffer.concat([salt, Buffer.from(password, 'utf8')]);
+  const hash = createHash('sha1');
+  while (count > 0) {
+    const chunk = Math.min(count, secret.length);
+    hash.update(secret.subarray(0, chunk));
+    count -= chunk;
+  }
+
+  const specifier = Buffer.concat([salt, Buffer.from([indicator])]);
+  return `16:${specifier.toString('hex').toUpperCase()}${hash.digest('hex').toUpperCase()}`;
+}
+
+/**
+ * Tor Control Connection
+ *
+ * Speaks the Tor control protocol over TCP:
+ * - PROTOCOLINFO discovery
+ * - NULL, SAFECOOKIE, COOKIE and HASHEDPASSWORD authentication
+ * - Pipelined commands with full multi-line reply parsing
+ * - Asynchronous 6xx event replies, emitted as 'event'
+ *
+ * Emits 'close' once the underlying socket has gone away.
+ */
+export class TorControlConnection extends EventEmitter {
+  private options: TorControlOptions;
+  private socket: Socket | null = null;
+  private parser = new ControlReplyParser();
+  private pending: Array<{
+    resolve: (reply: ControlReply) => void;
+    reject: (error: Error) => void;
+  }> = [];
+
+  constructor(options: TorControlOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Whether the socket is currently open
+   */
+  public get isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  /**
+   * Open the TCP connection to the control port
+   */
+  public async connect(): Promise<void> {
+    if (this.socket) {
+      return;
+    }
+
+    const host = this.options.host ?? '127.0.0.1';
+    const timeout = this.options.timeout ?? 5000;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = createConnection(this.options.port, host);
+      socket.setEncoding('utf8');
+      socket.setTimeout(timeout);
+
+      const onConnectError = (error: Error): void => {
+        socket.destroy();
+        reject(new Error(`Unable to connect to control port ${host}:${this.options.port}: ${error.message}`));
+      };
+
+      const onConnectTimeout = (): void => onConnectError(new Error('connection timed out'));
+
+      socket.once('error', onConnectError);
+      socket.once('timeout', onConnectTimeout);
+      socket.once('connect', () => {
+        socket.removeListener('error', onConnectError);
+        socket.removeListener('timeout', onConnectTimeout);
+        this.attachSocket(socket);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Authenticate using the strongest method Tor offers
+   */
+  public async authenticate(): Promise<void> {
+    const info = await this.getProtocolInfo();
+    const methods = info.authMethods;
+
+    if (methods.includes('NULL')) {
+      await this.sendCommand('AUTHENTICATE');
+      return;
+    }
+
+    if (this.options.password !== undefined && methods.includes('HASHEDPASSWORD')) {
+      await this.sendCommand(`AUTHENTICATE ${quote(this.options.password)}`);
+      return;
+    }
+
+    const cookieFile = this.options.cookieAuthFile ?? info.cookieFile;
+    if (cookieFile && methods.includes('SAFECOOKIE')) {
+      await this.authenticateSafeCookie(await this.readCookie(cookieFile));
+      return;
+    }
+
+    if (cookieFile && methods.includes('COOKIE')) {
+      const cookie = await this.readCookie(cookieFile);
+      await this.sendCommand(`AUTHENTICATE ${cookie.toString('hex')}`);
+      return;
+    }
+
+    if (methods.includes('HASHEDPASSWORD')) {
+      throw new Error('Tor requires a control port password but none is configured');
+    }
+
+    throw new Error(`No supported control port authentication method (offered: ${methods.join(', ') || 'none'})`);
+  }
+
+  /**
+   * Query PROTOCOLINFO for authentication methods and version
+   */
+  public async getProtocolInfo(): Promise<ProtocolInfo> {
+    const reply = await this.sendCommand('PROTOCOLINFO 1');
+    const info: ProtocolInfo = { protocolVersion: 1, authMethods: [] };
+
+    for (const line of reply.lines) {
+      if (line.text.startsWith('PROTOCOLINFO ')) {
+        info.protocolVersion = Number(line.text.slice('PROTOCOLINFO '.length)) || 1;
+      } else if (line.text.startsWith('AUTH ')) {
+        const fields = parseKeyValues(line.text);
+        info.authMethods = fields.METHODS ? fields.METHODS.split(',') : [];
+        info.cookieFile = fields.COOKIEFILE;
+      } else if (line.text.startsWith('VERSION ')) {
+        info.torVersion = parseKeyValues(line.text).Tor;
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Send a command and wait for its complete reply
+   */
+  public async sendCommand(command: string): Promise<ControlReply> {
+    if (!this.socket) {
+      throw new Error('Control connection is not open');
+    }
+
+    const socket = this.socket;
+    const reply = await new Promise<ControlReply>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(`${command}\r\n`);
+    });
+
+    if (reply.status >= 400) {
+      const message = reply.lines.map(line => line.text).join(' ');
+      throw new TorControlError(`${reply.status} ${message}`, reply.status, reply);
+    }
+
+    return reply;
+  }
+
+  /**
+   * Fetch one or more GETINFO keys
+   */
+  public async getInfo(...keys: string[]): Promise<Record<string, string>> {
+    const reply = await this.sendCommand(`GETINFO ${keys.join(' ')}`);
+    const values: Record<string, string> = {};
+
+    for (const line of reply.lines) {
+      const separator = line.text.indexOf('=');
+      if (separator === -1) {
+        continue;
+      }
+
+      const key = line.text.slice(0, separator);
+      values[key] = line.data ?? line.text.slice(separator + 1);
+    }
+
+    return values;
+  }
+
+  /**
+   * Send a SIGNAL command (e.g. NEWNYM)
+   */
+  public async signal(name: string): Promise<void> {
+    await this.sendCommand(`SIGNAL ${name}`);
+  }
+
+  /**
+   * Close the connection, failing any outstanding commands
+   */
+  public close(): void {
+    if (!this.socket) {
+      return;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket.end('QUIT\r\n');
+    socket.destroy();
+    this.failPending(new Error('Control connection closed'));
+  }
+
+  private attachSocket(socket: Socket): void {
+    this.socket = socket;
+
+    socket.on('data', (chunk: string) => {
+      try {
+        for (const reply of this.parser.push(chunk)) {
+          if (reply.status >= 600) {
+            this.emit('event', reply);
+          } else {
+            this.pending.shift()?.resolve(reply);
+          }
+        }
+      } catch (error) {
+        this.failPending(error instanceof Error ? error : new Error(String(error)));
+        socket.destroy();
+      }
+    });
+
+    socket.on('timeout', () => {
+      if (this.pending.length > 0) {
+        this.failPending(new Error('Control command timeout'));
+        socket.destroy();
+      }
+    });
+
+    socket.on('error', (error: Error) => {
+      this.failPending(error);
+    });
+
+    socket.on('close', () => {
+      this.socket = null;
+      this.failPending(new Error('Control connection closed'));
+      this.emit('close');
+    });
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(entry => entry.reject(error));
+  }
+
+  private async readCookie(path: string): Promise<Buffer> {
+    try {
+      const cookie = await fs.readFile(path);
+      if (cookie.length !== 32) {
+        throw new Error(`expected 32 bytes, found ${cookie.length}`);
+      }
+      return cookie;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Unable to read control auth cookie ${path}: ${message}`);
+    }
+  }
+
+  private async authenticateSafeCookie(cookie: Buffer): Promise<void> {
+    const clientNonce = randomBytes(32);
+    const reply = await this.sendCommand(`AUTHCHALLENGE SAFECOOKIE ${clientNonce.toString('hex')}`);
+    const fields = parseKeyValues(reply.lines[reply.lines.length - 1].text);
+
+    if (!fields.SERVERHASH || !fields.SERVERNONCE) {
+      throw new Error('Malformed AUTHCHALLENGE reply');
+    }
+
+    const serverNonce = Buffer.from(fields.SERVERNONCE, 'hex');
+    const message = Buffer.concat([cookie, clientNonce, serverNonce]);
+
+    const expectedServerHash = createHmac('sha256', SAFECOOKIE_SERVER_KEY).update(message).digest();
+    const serverHash = Buffer.from(fields.SERVERHASH, 'hex');
+    if (serverHash.length !== expectedServerHash.length || !timingSafeEqual(serverHash, expectedServerHash)) {
+      throw new Error('Tor SAFECOOKIE server hash mismatch; refusing to authenticate');
+    }
+
+    const clientHash = createHmac('sha256', SAFECOOKIE_CLIENT_KEY).update(message).digest();
+    await this.sendCommand(`AUTHENTICATE ${clientHash.toString('hex')}`);
+  }
+}
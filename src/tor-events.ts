@@ -0,0 +1,244 @@
+import { type ControlReply, parseKeyValues } from './tor-control.js';
+import { EventEmitter } from 'events';
+
+export interface CircuitHop {
+  fingerprint?: string;
+  nickname?: string;
+}
+
+export interface CircuitEvent {
+  circuitId: string;
+  status: string;
+  path: CircuitHop[];
+  buildFlags: string[];
+  purpose?: string;
+  hsState?: string;
+  rendQuery?: string;
+  timeCreated?: Date;
+  reason?: string;
+  remoteReason?: string;
+  socksUsername?: string;
+}
+
+export interface StreamEvent {
+  streamId: string;
+  status: string;
+  circuitId: string;
+  target: string;
+  reason?: string;
+  remoteReason?: string;
+  purpose?: string;
+  socksUsername?: string;
+}
+
+export interface BandwidthEvent {
+  bytesRead: number;
+  bytesWritten: number;
+}
+
+export interface StatusEvent {
+  severity: string;
+  action: string;
+  arguments: Record<string, string>;
+}
+
+export interface HsDescEvent {
+  action: string;
+  address: string;
+  authType: string;
+  hsDir: string;
+  descriptorId?: string;
+  reason?: string;
+}
+
+export interface LogEvent {
+  severity: string;
+  message: string;
+}
+
+export interface BootstrapStatus {
+  progress: number;
+  tag: string;
+  summary: string;
+  warning?: string;
+  reason?: string;
+  recommendation?: string;
+  host?: string;
+  updatedAt: Date;
+}
+
+export interface TorEventMap {
+  CIRC: CircuitEvent;
+  STREAM: StreamEvent;
+  BW: BandwidthEvent;
+  STATUS_CLIENT: StatusEvent;
+  HS_DESC: HsDescEvent;
+  NOTICE: LogEvent;
+  WARN: LogEvent;
+  ERR: LogEvent;
+}
+
+export type TorEventName = keyof TorEventMap;
+
+export type TorEvent = { [K in TorEventName]: { name: K; payload: TorEventMap[K] } }[TorEventName];
+
+/**
+ * Event emitter with listeners typed by Tor event name
+ */
+export class TorEventEmitter extends EventEmitter {
+  public override on<K extends TorEventName>(event: K, listener: (payload: TorEventMap[K]) => void): this {
+    return super.on(event, listener);
+  }
+
+  public override once<K extends TorEventName>(event: K, listener: (payload: TorEventMap[K]) => void): this {
+    return super.once(event, listener);
+  }
+
+  public override off<K extends TorEventName>(event: K, listener: (payload: TorEventMap[K]) => void): this {
+    return super.off(event, listener);
+  }
+
+  public override emit<K extends TorEventName>(event: K, payload: TorEventMap[K]): boolean {
+    return super.emit(event, payload);
+  }
+}
+
+/**
+ * Parse a circuit description as used by CIRC events and GETINFO circuit-status
+ *
+ * Format: <CircuitID> <CircStatus> [<Path>] [KEY=VALUE ...]
+ */
+export function parseCircuitLine(text: string): CircuitEvent {
+  const [circuitId, status, maybePath] = text.split(' ');
+  const hasPath = maybePath !== undefined && !maybePath.includes('=');
+  const fields = parseKeyValues(text);
+
+  return {
+    circuitId,
+    status,
+    path: hasPath ? maybePath.split(',').map(parseHop) : [],
+    buildFlags: fields.BUILD_FLAGS ? fields.BUILD_FLAGS.split(',') : [],
+    purpose: fields.PURPOSE,
+    hsState: fields.HS_STATE,
+    rendQuery: fields.REND_QUERY,
+    timeCreated: fields.TIME_CREATED ? parseTorTime(fields.TIME_CREATED) : undefined,
+    reason: fields.REASON,
+    remoteReason: fields.REMOTE_REASON,
+    socksUsername: fields.SOCKS_USERNAME,
+  };
+}
+
+/**
+ * Convert an asynchronous 650 reply into a typed event
+ */
+export function parseTorEvent(reply: ControlReply): TorEvent | null {
+  const text = reply.lines.map(line => line.data ? `${line.text}\n${line.data}` : line.text).join('\n');
+  const space = text.indexOf(' ');
+  const name = space === -1 ? text : text.slice(0, space);
+  const body = space === -1 ? '' : text.slice(space + 1);
+  const words = body.split(' ');
+
+  switch (name) {
+    case 'CIRC':
+      return { name, payload: parseCircuitLine(body) };
+
+    case 'STREAM': {
+      const fields = parseKeyValues(body);
+      return {
+        name,
+        payload: {
+          streamId: words[0],
+          status: words[1],
+          circuitId: words[2],
+          target: words[3],
+          reason: fields.REASON,
+          remoteReason: fields.REMOTE_REASON,
+          purpose: fields.PURPOSE,
+          socksUsername: fields.SOCKS_USERNAME,
+        },
+      };
+    }
+
+    case 'BW':
+      return { name, payload: { bytesRead: Number(words[0]), bytesWritten: Number(words[1]) } };
+
+    case 'STATUS_CLIENT':
+      return {
+        name,
+        payload: { severity: words[0], action: words[1], arguments: parseKeyValues(words.slice(2).join(' ')) },
+      };
+
+    case 'HS_DESC': {
+      const fields = parseKeyValues(body);
+      return {
+        name,
+        payload: {
+          action: words[0],
+          address: words[1],
+          authType: words[2],
+          hsDir: words[3],
+          descriptorId: words[4] && !words[4].includes('=') ? words[4] : undefined,
+          reason: fields.REASON,
+        },
+      };
+    }
+
+    case 'NOTICE':
+    case 'WARN':
+    case 'ERR':
+      return { name, payload: { severity: name, message: body } };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a BOOTSTRAP status, from either a STATUS_CLIENT event or GETINFO status/bootstrap-phase
+ *
+ * Format: <Severity> BOOTSTRAP PROGRESS=<n> TAG=<tag> SUMMARY=<quoted> [WARNING=...] [REASON=...] ...
+ */
+export function parseBootstrapPhase(text: string): BootstrapStatus | null {
+  if (!/\bBOOTSTRAP\b/.test(text)) {
+    return null;
+  }
+
+  return toBootstrapStatus(parseKeyValues(text));
+}
+
+/**
+ * Build a bootstrap status from the KEY=VALUE arguments of a BOOTSTRAP status
+ */
+export function toBootstrapStatus(fields: Record<string, string>): BootstrapStatus | null {
+  const progress = Number(fields.PROGRESS);
+  if (fields.PROGRESS === undefined || Number.isNaN(progress)) {
+    return null;
+  }
+
+  return {
+    progress,
+    tag: fields.TAG ?? 'unknown',
+    summary: fields.SUMMARY ?? '',
+    warning: fields.WARNING,
+    reason: fields.REASON,
+    recommendation: fields.RECOMMENDATION,
+    host: fields.HOSTADDR,
+    updatedAt: new Date(),
+  };
+}
+
+function parseHop(hop: string): CircuitHop {
+  const match = /^\$([0-9A-Fa-f]{40})(?:[~=](.+))?$/.exec(hop);
+  if (match) {
+    return { fingerprint: match[1].toUpperCase(), nickname: match[2] };
+  }
+  return { nickname: hop };
+}
+
+/**
+ * Tor reports ISO times without a zone suffix, always in UTC
+ */
+function parseTorTime(value: string): Date | undefined {
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -1,12 +1,52 @@
+import { createHash } from 'crypto';
+import { join } from 'path';
 import { z } from 'zod';
-import { TorNetworkClient, type TorRequestOptions } from './tor-client.js';
-
-export interface OnionService {
-  name: string;
-  url: string;
-  description: string;
-  category: string;
-  verified: boolean;
+
+import { CACHE_MODES, type CacheInfo, CacheMissError } from './response-cache.js';
+import { type DetectedContent, decodeText, detectContent, formatBytes, saveDownload, suggestFilename } from './binary-content.js';
+import { type HealthState, type OnionProbeConfig, OnionProber, PROBE_IDENTITY, type ServiceHealth, onionProbeConfigSchema } from './onion-probe.js';
+import { type OnionAddress, OnionAddressError, parseOnionAddress } from './onion-address.js';
+import { type OnionLocation, type OnionLocationConfig, type OnionUpgrade, onionLocationConfigSchema } from './onion-location.js';
+import { OnionPublishError, type PublishedOnionService } from './onion-publisher.js';
+import { OnionRegistry, type OnionRegistryConfig, OnionRegistryError, type OnionService } from './onion-registry.js';
+import { type OutputMode, type StructuredData, type ToolContent, type ToolResult, outputModeSchema, toolResult } from './structured-output.js';
+import { type QueueReason, RateLimitError } from './scheduler.js';
+import { RESPONSE_FORMATS, type ResponseFormat, extractPage, isHtml, renderPage } from './html-extract.js';
+import { RedirectError, type RedirectHop, isOnionHost } from './redirects.js';
+import { type RequestAttempt, RequestFailedError, describeSocksReply, isIdempotent } from './retry.js';
+import { ResponseStore, type StoredResponse, searchText } from './response-store.js';
+import { type TlsInfo, type TorCircuit, type TorConnectionStatus, TorNetworkClient, type TorRequestOptions } from './tor-client.js';
+import { type UrlPolicy, UrlPolicyError, urlPolicySchema } from './url-policy.js';
+import { describeNodePolicy, nodePolicySchema } from './node-policy.js';
+import { extractPdfText, printableRatio } from './pdf-text.js';
+import type { ExitVerification } from './connectivity.js';
+import { HEADER_PROFILE_NAMES } from './header-profiles.js';
+import { TorControlError } from './tor-control.js';
+
+const identitySchema = z.string().min(1).max(128).refine(name => name !== PROBE_IDENTITY, {
+  message: `"${PROBE_IDENTITY}" is reserved for onion service health probes`,
+});
+
+// Order of services with equal search scores
+const HEALTH_RANK: Record<HealthState, number> = { up: 0, unknown: 1, down: 2, unreachable: 3 };
+
+// Characters of a response shown per page
+const PAGE_SIZE = 4000;
+
+// Largest bodies returned inline as image content or base64 text
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_BASE64_BYTES = 1024 * 1024;
+
+export interface TorToolsConfig {
+  responseStoreEntries?: number;
+  responseStoreMaxBytes?: number;
+  downloadDirectory?: string;
+  outputMode?: OutputMode;
+  dataDirectory?: string;
+  onionRegistry?: Partial<OnionRegistryConfig>;
+  onionProbe?: OnionProbeConfig;
+  onionLocation?: OnionLocationConfig;
+  urlPolicy?: UrlPolicy;
 }
 
 /**
@@ -20,371 +60,1606 @@ export interface OnionService {
  */
 export class TorTools {
   private torClient: TorNetworkClient;
+  private responses: ResponseStore;
+  private downloadDirectory?: string;
+  private outputMode: OutputMode;
+  private registry: OnionRegistry;
+  private prober: OnionProber;
+  private onionLocation: OnionLocationConfig;
+  private maxBodyBytes: number;
 
-  // Well-known onion services for discovery
-  private knownOnionServices: OnionService[] = [
-    {
-      name: "DuckDuckGo",
-      url: "https://duckduckgogg42xjoc72x3sjasowoarfbgcmvfimaftt6twagswzczad.onion",
-      description: "Privacy-focused search engine",
-      category: "search",
-      verified: true
-    },
-    {
-      name: "Facebook",
-      url: "https://facebookwkhpilnemxj7asaniu7vnjjbiltxjqhye3mhbshg7kx5tfyd.onion",
-      description: "Social networking platform",
-      category: "social",
-      verified: true
-    },
-    {
-      name: "The New York Times",
-      url: "https://nytimes3xbfgragh.onion",
-      description: "News and journalism",
-      category: "news",
-      verified: true
-    },
-    {
-      name: "ProPublica",
-      url: "https://p53lf57qovyuvwsc6xnrppddxpr23otqjb4a6d7vyb2ot2ouu7qd.onion",
-      description: "Investigative journalism",
-      category: "news",
-      verified: true
-    },
-    {
-      name: "BBC News",
-      url: "https://bbcnewsv2vjtpsuy.onion",
-      description: "British news service",
-      category: "news",
-      verified: true
-    },
-    {
-      name: "Keybase",
-      url: "https://keybase5wmilwokqirssclfnsqrjdsi7jdir5wy7y7iu3tanwmtp6oid.onion",
-      description: "Secure messaging and file sharing",
-      category: "communication",
-      verified: true
-    },
-    {
-      name: "Privacy International",
-      url: "https://privacyintyqcroe.onion",
-      description: "Privacy rights organization",
-      category: "privacy",
-      verified: true
-    },
-    {
-      name: "SecureDrop",
-      url: "https://secrdrop5wyphb5x.onion",
-      description: "Secure document sharing for journalists",
-      category: "security",
-      verified: true
-    }
-  ];
-
-  constructor(torClient: TorNetworkClient) {
+  constructor(torClient: TorNetworkClient, config: TorToolsConfig = {}) {
     this.torClient = torClient;
+    this.responses = new ResponseStore({
+      maxEntries: config.responseStoreEntries ?? 50,
+      maxBytes: config.responseStoreMaxBytes ?? 16 * 1024 * 1024,
+    });
+    this.downloadDirectory = config.downloadDirectory;
+    this.outputMode = config.outputMode ?? 'both';
+    this.registry = new OnionRegistry({
+      bundled: config.onionRegistry?.bundled ?? true,
+      files: config.onionRegistry?.files ?? [],
+      storeFile: config.onionRegistry?.storeFile
+        ?? (config.dataDirectory ? join(config.dataDirectory, 'onion-services.json') : undefined),
+    });
+    this.onionLocation = config.onionLocation ?? onionLocationConfigSchema.parse({});
+    this.maxBodyBytes = (config.urlPolicy ?? urlPolicySchema.parse({})).maxBodyBytes;
+    const probeConfig = config.onionProbe ?? onionProbeConfigSchema.parse({});
+    this.prober = new OnionProber(torClient, this.registry, {
+      ...probeConfig,
+      healthFile: probeConfig.healthFile ?? (config.dataDirectory ? join(config.dataDirectory, 'onion-health.json') : undefined),
+    });
+  }
+
+  /**
+   * Start probing registered onion services in the background, if enabled
+   */
+  public startOnionProbes(): void {
+    this.prober.start();
+  }
+
+  public stopOnionProbes(): void {
+    this.prober.stop();
   }
 
   /**
    * Make HTTP request through TOR
    */
-  public async makeRequest(args: unknown): Promise<{ content: Array<{ type: string; text: string }> }> {
+  public async makeRequest(args: unknown): Promise<ToolResult> {
     const schema = z.object({
       url: z.string().url(),
       method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).default('GET'),
       headers: z.record(z.string()).optional(),
       body: z.string().optional(),
       timeout: z.number().positive().default(30000),
+      identity: identitySchema.optional(),
+      maxRedirects: z.number().int().min(0).max(20).optional(),
+      allowOnionToClearnet: z.boolean().optional(),
+      allowHttpsDowngrade: z.boolean().optional(),
+      format: z.enum(RESPONSE_FORMATS).default('markdown'),
+      binary: z.enum(['summary', 'base64', 'save']).default('summary'),
+      filename: z.string().min(1).max(255).optional(),
+      cache: z.enum(CACHE_MODES).default('use'),
+      cookies: z.boolean().optional(),
+      headerProfile: z.enum(HEADER_PROFILE_NAMES).optional(),
+      allowHeaders: z.array(z.string().min(1)).optional(),
+      queueTimeout: z.number().int().positive().optional(),
+      maxAttempts: z.number().int().min(1).max(10).optional(),
+      onionUpgrade: z.boolean().optional(),
+      output: outputModeSchema.optional(),
     });
 
-    const { url, method, headers, body, timeout } = schema.parse(args);
+    const {
+      url, method, headers, body, timeout, identity, maxRedirects, allowOnionToClearnet, allowHttpsDowngrade, format,
+      binary, filename, cache, cookies, headerProfile, allowHeaders, queueTimeout, maxAttempts, onionUpgrade, output,
+    } = schema.parse(args);
 
     try {
       const options: TorRequestOptions = {
         method,
-        headers: {
-          'User-Agent': 'TorOllama-MCP/1.0.0',
-          ...headers,
-        },
+        headers,
         timeout,
+        identity,
+        maxRedirects,
+        allowOnionToClearnet,
+        allowHttpsDowngrade,
+        cacheMode: cache,
+        cookies,
+        headerProfile,
+        allowHeaders,
+        queueTimeout,
+        maxAttempts,
+        onionUpgrade,
       };
 
       if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
         options.body = body;
       }
 
-      const response = await this.torClient.request(url, options);
-      const responseText = await response.text();
+      const {
+        response, url: finalUrl, redirects, cache: cacheInfo, cookies: cookieUsage, sentHeaders, strippedHeaders, queue,
+        failedAttempts, onionLocation, onionUpgrade: upgrade,
+      } = await this.torClient.request(url, options);
+      const registered = onionLocation ? await this.registerOnionLocation(onionLocation) : undefined;
+      const data = Buffer.from(await response.arrayBuffer());
 
-      const isOnion = url.includes('.onion');
+      const isOnion = isOnionHost(new URL(finalUrl).hostname);
       const statusInfo = `${response.status} ${response.statusText}`;
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**TOR Request Results**\n\n` +
-                  `**URL:** ${url}\n` +
-                  `**Method:** ${method}\n` +
-                  `**Status:** ${statusInfo}\n` +
-                  `**Network:** ${isOnion ? 'Hidden Service (.onion)' : 'Clearnet via TOR'}\n` +
-                  `**Response Size:** ${responseText.length} bytes\n\n` +
-                  `**Headers:**\n${this.formatHeaders(response.headers)}\n\n` +
-                  `**Response Body:**\n\`\`\`\n${responseText.slice(0, 4000)}${responseText.length > 4000 ? '\n... (truncated)' : ''}\n\`\`\``
+      const contentType = response.headers.get('content-type');
+      const detected = detectContent(data, contentType);
+      const images: ToolContent[] = [];
+      let stored: StoredResponse | null = null;
+      let bodySection: string;
+      let bodyData: StructuredData;
+
+      switch (detected.kind) {
+        case 'text': {
+          const responseText = decodeText(data, contentType);
+          stored = this.responses.add({ url, finalUrl, status: response.status, contentType, format, body: responseText });
+          const view = this.renderView(responseText, contentType, finalUrl, format);
+          bodySection = this.formatBody(view, format, stored?.id);
+          bodyData = this.viewData(view, format);
+          break;
+        }
+
+        case 'pdf': {
+          // Decoded streams get the same limit as response bodies
+          const pdfText = extractPdfText(data, this.maxBodyBytes);
+          if (pdfText && printableRatio(pdfText) > 0.8) {
+            stored = this.responses.add({ url, finalUrl, status: response.status, contentType: 'text/plain', format: 'raw', body: pdfText });
+            bodySection = this.formatBody({ text: pdfText, rendered: true }, 'raw', stored?.id, 'Extracted PDF Text');
+            bodyData = this.viewData({ text: pdfText, rendered: false }, 'raw');
+          } else {
+            bodySection = `**PDF Document:** No extractable text. The document may be scanned, or its fonts use custom encodings.`;
+            bodyData = {};
           }
-        ]
-      };
+          break;
+        }
+
+        case 'image':
+          if (data.length <= MAX_INLINE_IMAGE_BYTES) {
+            images.push({ type: "image", data: data.toString('base64'), mimeType: detected.mimeType });
+            bodySection = `**Image:** ${detected.mimeType}, returned as image content`;
+          } else {
+            bodySection = `**Image:** ${detected.mimeType}, too large to return inline (limit ${formatBytes(MAX_INLINE_IMAGE_BYTES)})`;
+          }
+          bodyData = { inline: images.length > 0 };
+          break;
+
+        case 'binary':
+          bodySection = `**Binary Content:** ${detected.mimeType}, not shown as text`;
+          bodyData = {};
+          break;
+      }
+
+      if (detected.kind !== 'text') {
+        const disposition = response.headers.get('content-disposition');
+        const delivery = await this.deliverBinary(data, detected, binary, filename ?? suggestFilename(finalUrl, detected.mimeType, disposition));
+        bodySection += `\n\n${delivery.text}`;
+        bodyData = { ...bodyData, sha256: delivery.sha256, base64: delivery.base64, savedTo: delivery.savedTo };
+      }
+
+      return this.respond(
+        output,
+        `**TOR Request Results**\n\n` +
+        `**URL:** ${url}\n` +
+        `${finalUrl !== url ? `**Final URL:** ${finalUrl}\n` : ''}` +
+        `${upgrade ? `**Onion Upgrade:** ${this.describeOnionUpgrade(upgrade)}\n` : ''}` +
+        `**Method:** ${method}\n` +
+        `**Status:** ${statusInfo}\n` +
+        `**Network:** ${isOnion ? 'Hidden Service (.onion)' : 'Clearnet via TOR'}\n` +
+        `**Identity:** ${identity ?? 'Shared (default)'}\n` +
+        `${cacheInfo ? `**Cache:** ${this.formatCacheInfo(cacheInfo)}\n` : ''}` +
+        `${failedAttempts && failedAttempts.length > 0
+          ? `**Attempts:** ${failedAttempts.length + 1} (succeeded after ${failedAttempts.length} failed)\n${this.formatAttempts(failedAttempts)}\n`
+          : ''}` +
+        `${queue && queue.waited > 0 ? `**Queued:** ${(queue.waited / 1000).toFixed(1)} s (${this.describeQueueReason(queue.reason)})\n` : ''}` +
+        `${cookieUsage ? `**Cookies:** ${cookieUsage.sent} sent, ${cookieUsage.stored} stored\n` : ''}` +
+        `${onionLocation ? `**Onion Alternative:** ${this.describeOnionLocation(onionLocation, registered)}\n` : ''}` +
+        `**Content Type:** ${detected.mimeType}${detected.sniffed ? ' (detected from content)' : ''}\n` +
+        `**Response Size:** ${formatBytes(data.length)}\n` +
+        `${stored ? `**Response ID:** ${stored.id}\n` : ''}\n` +
+        `${redirects.length > 0 ? `**Redirects:**\n${this.formatRedirects(redirects)}\n\n` : ''}` +
+        `${sentHeaders ? `**Request Headers:**\n${sentHeaders.map(([name, value]) => `  ${name}: ${value}`).join('\n')}\n\n` : ''}` +
+        `${strippedHeaders && strippedHeaders.length > 0
+          ? `**Stripped Headers:** ${strippedHeaders.join(', ')} (identifying; list them in allowHeaders to send them)\n\n`
+          : ''}` +
+        `**Headers:**\n${this.formatHeaders(response.headers)}\n\n${bodySection}`,
+        {
+          url,
+          finalUrl,
+          method,
+          status: response.status,
+          statusText: response.statusText,
+          network: isOnion ? 'onion' : 'clearnet',
+          identity,
+          contentType: detected.mimeType,
+          sniffed: detected.sniffed,
+          size: data.length,
+          responseId: stored?.id,
+          headers: Object.fromEntries(response.headers.entries()),
+          requestHeaders: sentHeaders?.map(([name, value]) => ({ name, value })),
+          strippedHeaders,
+          redirects,
+          cache: cacheInfo,
+          attempts: (failedAttempts?.length ?? 0) + 1,
+          failedAttempts: failedAttempts ?? [],
+          queue,
+          cookies: cookieUsage,
+          onionLocation: onionLocation ? { ...onionLocation, registered } : undefined,
+          onionUpgrade: upgrade,
+          body: { kind: detected.kind, ...bodyData },
+        },
+        images
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      return {
-        content: [
+
+      if (error instanceof CacheMissError) {
+        return this.respond(
+          output,
+          `**Not in TOR Cache**\n\n` +
+          `**URL:** ${url}\n` +
+          `**Identity:** ${identity ?? 'Shared (default)'}\n\n` +
+          `No cached response is stored for this URL, and \`cache: "only"\` never goes to the network. ` +
+          `Use \`cache: "use"\` to fetch it.`,
+          { url, method, identity, error: { type: 'cache-miss', message: errorMessage, cacheMode: cache } }
+        );
+      }
+
+      if (error instanceof RequestFailedError) {
+        const { failure, attempts } = error;
+        const unsafeToRetry = attempts.length === 1 && failure.retryable && failure.sent && !isIdempotent(method);
+
+        return this.respond(
+          output,
+          `**TOR Request Failed: ${failure.cause}**\n\n` +
+          `**URL:** ${url}\n` +
+          `**Method:** ${method}\n` +
+          `**Failure Class:** ${failure.kind}${failure.retryable ? ' (retryable)' : ' (not retryable)'}\n` +
+          `${failure.socksReply !== undefined ? `**SOCKS Reply:** ${describeSocksReply(failure.socksReply)}\n` : ''}` +
+          `**Attempts:** ${attempts.length}` +
+          `${unsafeToRetry ? ' (not retried: the request may have reached the server, and repeating it is not safe)' : ''}\n` +
+          `${attempts.length > 1 ? `${this.formatAttempts(attempts)}\n` : ''}` +
+          `**Error:** ${failure.detail}\n\n${failure.hint}`,
+          { url, method, identity, error: { type: 'request-failed', message: errorMessage, failure, attempts } }
+        );
+      }
+
+      if (error instanceof RateLimitError) {
+        return this.respond(
+          output,
+          `**TOR Request Rate Limited**\n\n` +
+          `**URL:** ${url}\n` +
+          `**Method:** ${method}\n` +
+          `**Host:** ${error.host}\n` +
+          `**Reason:** ${errorMessage}\n` +
+          `${error.blockedBy ? `**Waiting On:** ${this.describeQueueReason(error.blockedBy)}\n` : ''}` +
+          `${error.retryAfter !== undefined ? `**Retry After:** ${(error.retryAfter / 1000).toFixed(1)} s\n` : ''}\n` +
+          `The request was not sent. Too many requests are going to this host or through TOR at once; ` +
+          `wait for earlier requests to finish before sending more.`,
           {
-            type: "text",
-            text: `**TOR Request Failed**\n\n` +
-                  `**URL:** ${url}\n` +
-                  `**Method:** ${method}\n` +
-                  `**Error:** ${errorMessage}\n\n` +
-                  `This could be due to:\n` +
-                  `- Network connectivity issues\n` +
-                  `- TOR circuit problems\n` +
-                  `- Target server unavailable\n` +
-                  `- Invalid .onion address\n\n` +
-                  `Try requesting a new TOR circuit if the issue persists.`
+            url,
+            method,
+            identity,
+            error: {
+              type: 'rate-limited',
+              message: errorMessage,
+              host: error.host,
+              reason: error.reason,
+              blockedBy: error.blockedBy,
+              retryAfter: error.retryAfter,
+            },
           }
-        ]
-      };
+        );
+      }
+
+      if (error instanceof UrlPolicyError) {
+        return this.respond(
+          output,
+          `**TOR Request Blocked: Policy Violation**\n\n` +
+          `**URL:** ${url}\n` +
+          `${error.url !== url ? `**Blocked URL:** ${error.url}\n` : ''}` +
+          `**Method:** ${method}\n` +
+          `**Rule:** ${error.rule}\n` +
+          `**Reason:** ${errorMessage}\n\n` +
+          `${error.rule === 'body-size'
+            ? 'The response was discarded because it is larger than the URL policy (`urlPolicy.maxBodyBytes`) allows.'
+            : 'The request was not sent. The server\'s URL policy (`urlPolicy` in its configuration) does not allow it.'}`,
+          { url, method, identity, error: { type: 'policy', message: errorMessage, rule: error.rule, blockedUrl: error.url } }
+        );
+      }
+
+      if (error instanceof OnionAddressError) {
+        return this.respond(
+          output,
+          `**TOR Request Blocked: Invalid Onion Address**\n\n` +
+          `**URL:** ${url}\n` +
+          `**Method:** ${method}\n` +
+          `**Host:** ${error.host}\n` +
+          `**Problem:** ${error.problem}\n` +
+          `**Error:** ${errorMessage}\n\n` +
+          `The request was not sent. Check the address with \`validate_onion_address\` and get the correct one from a source you trust.`,
+          { url, method, identity, error: { type: 'invalid-onion', message: errorMessage, host: error.host, problem: error.problem } }
+        );
+      }
+
+      if (error instanceof RedirectError) {
+        return this.respond(
+          output,
+          `**TOR Request Blocked: Redirect Refused**\n\n` +
+          `**URL:** ${url}\n` +
+          `**Method:** ${method}\n` +
+          `**Error:** ${errorMessage}\n\n` +
+          `**Redirects:**\n${this.formatRedirects(error.redirects)}\n\n` +
+          `${error.violation === 'too-many-redirects'
+            ? 'Raise maxRedirects if this chain is expected.'
+            : 'The redirect was not followed. Set allowOnionToClearnet or allowHttpsDowngrade to follow it anyway.'}`,
+          {
+            url,
+            method,
+            identity,
+            error: { type: 'redirect', message: errorMessage, violation: error.violation, redirects: error.redirects },
+          }
+        );
+      }
+
+      return this.respond(
+        output,
+        `**TOR Request Failed**\n\n` +
+        `**URL:** ${url}\n` +
+        `**Method:** ${method}\n` +
+        `**Error:** ${errorMessage}\n\n` +
+        `This could be due to:\n` +
+        `- Network connectivity issues\n` +
+        `- TOR circuit problems\n` +
+        `- Target server unavailable\n` +
+        `- Invalid .onion address\n\n` +
+        `Try requesting a new TOR circuit if the issue persists.`,
+        { url, method, identity, error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * Read part of a stored response, or search within it
+   */
+  public readResponse(args: unknown): ToolResult {
+    const schema = z.object({
+      responseId: z.string().min(1),
+      offset: z.number().int().nonnegative().optional(),
+      length: z.number().int().positive().max(20000).default(PAGE_SIZE),
+      page: z.number().int().positive().optional(),
+      search: z.string().min(1).optional(),
+      format: z.enum(RESPONSE_FORMATS).optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { responseId, offset, length, page, search, format, output } = schema.parse(args);
+
+    const entry = this.responses.get(responseId);
+    if (!entry) {
+      return this.respond(
+        output,
+        `**Response Not Found**\n\n` +
+        `**Response ID:** ${responseId}\n\n` +
+        `The response is no longer stored. Older responses are evicted once the store is full; ` +
+        `repeat the tor_request to fetch it again.`,
+        { responseId, error: { type: 'not-found', message: `Response ${responseId} is no longer stored` } }
+      );
+    }
+
+    const viewFormat = format ?? entry.format;
+    const view = this.renderView(entry.body, entry.contentType, entry.finalUrl, viewFormat);
+    const total = view.text.length;
+    const pageCount = Math.max(1, Math.ceil(total / length));
+    const entryData = {
+      responseId: entry.id,
+      url: entry.finalUrl,
+      status: entry.status,
+      format: view.rendered ? viewFormat : 'raw',
+      fetchedAt: entry.storedAt,
+      totalLength: total,
+    };
+
+    const header = `**TOR Response ${entry.id}**\n\n` +
+                   `**URL:** ${entry.finalUrl}\n` +
+                   `**Status:** ${entry.status}\n` +
+                   `**Format:** ${view.rendered ? viewFormat : 'raw'}\n` +
+                   `**Fetched:** ${entry.storedAt.toISOString()}\n`;
+
+    if (search) {
+      const matches = searchText(view.text, search).map(match => ({ ...match, page: Math.floor(match.offset / length) + 1 }));
+
+      return this.respond(
+        output,
+        `${header}**Search:** "${search}" (${matches.length === 0 ? 'no matches' : `${matches.length}${matches.length === 20 ? '+' : ''} match${matches.length === 1 ? '' : 'es'}`})\n\n` +
+        `${matches.map(match => `- Offset ${match.offset} (page ${match.page}): ${match.context}`).join('\n')}`,
+        { ...entryData, search, matches }
+      );
     }
+
+    const start = Math.min(page !== undefined ? (page - 1) * length : offset ?? 0, total);
+    const end = Math.min(start + length, total);
+    const text = view.text.slice(start, end);
+    const currentPage = Math.floor(start / length) + 1;
+
+    return this.respond(
+      output,
+      `${header}**Showing:** characters ${start}-${end} of ${total} (page ${currentPage} of ${pageCount})\n\n` +
+      `${view.rendered ? text : `\`\`\`\n${text}\n\`\`\``}` +
+      `${end < total ? `\n\n**Next:** offset ${end}` : '\n\n(end of response)'}`,
+      { ...entryData, offset: start, end, page: currentPage, pageCount, text, next: end < total ? end : undefined }
+    );
   }
 
   /**
    * Check TOR connection status
    */
-  public async checkConnection(): Promise<{ content: Array<{ type: string; text: string }> }> {
+  public async checkConnection(args: unknown = {}): Promise<ToolResult> {
+    const schema = z.object({
+      refresh: z.boolean().default(false),
+      output: outputModeSchema.optional(),
+    });
+
+    const { refresh, output } = schema.parse(args ?? {});
+
     try {
-      const isConnected = await this.torClient.checkConnection();
+      const report = await this.torClient.checkConnection(true, refresh);
       const status = await this.torClient.getStatus();
+      const exit = report.exit;
+      const data = {
+        connected: report.torUp,
+        method: report.method,
+        exit,
+        torVersion: status.torVersion,
+        circuitEstablished: report.circuitEstablished,
+        lastCircuitTime: status.lastCircuitTime,
+        errors: report.errors,
+      };
 
-      if (isConnected) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `**TOR Connection Status: ✅ CONNECTED**\n\n` +
-                    `**Current IP:** ${status.currentIP || 'Unknown'}\n` +
-                    `**TOR Version:** ${status.torVersion || 'Unknown'}\n` +
-                    `**Circuit Established:** ${status.circuitEstablished ? 'Yes' : 'No'}\n` +
-                    `**Last Circuit:** ${status.lastCircuitTime ? status.lastCircuitTime.toISOString() : 'N/A'}\n\n` +
-                    `Your connection is routed through the TOR network and your IP is anonymized.`
-            }
-          ]
-        };
+      if (report.torUp) {
+        return this.respond(
+          output,
+          `**TOR Connection Status: ✅ CONNECTED**\n\n` +
+          `**TOR:** Up (${report.method === 'control-port' ? 'confirmed by control port' : 'confirmed by check endpoint'})\n` +
+          `**Exit IP:** ${this.formatExitVerification(exit)}\n` +
+          `**TOR Version:** ${status.torVersion || 'Unknown'}\n` +
+          `**Circuit Established:** ${report.circuitEstablished ? 'Yes' : 'No'}\n` +
+          `**Last Circuit:** ${status.lastCircuitTime ? status.lastCircuitTime.toISOString() : 'N/A'}\n\n` +
+          `${exit?.verified
+            ? 'Your connection is routed through the TOR network and your IP is anonymized.'
+            : 'TOR is running, but the exit IP could not be verified.'}`,
+          data
+        );
       } else {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `**TOR Connection Status: ❌ DISCONNECTED**\n\n` +
-                    `The TOR connection is not working properly. This could be due to:\n` +
-                    `- TOR daemon not running\n` +
-                    `- Network connectivity issues\n` +
-                    `- Firewall blocking TOR traffic\n` +
-                    `- SOCKS proxy configuration problems\n\n` +
-                    `Please check your TOR installation and network configuration.`
-            }
-          ]
-        };
+        return this.respond(
+          output,
+          `**TOR Connection Status: ❌ DISCONNECTED**\n\n` +
+          `${report.errors.length > 0 ? `**Errors:**\n${report.errors.map(error => `- ${error}`).join('\n')}\n\n` : ''}` +
+          `The TOR connection is not working properly. This could be due to:\n` +
+          `- TOR daemon not running\n` +
+          `- Network connectivity issues\n` +
+          `- Firewall blocking TOR traffic\n` +
+          `- SOCKS proxy configuration problems\n\n` +
+          `Please check your TOR installation and network configuration.`,
+          data
+        );
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**TOR Connection Check Failed**\n\n` +
-                  `**Error:** ${errorMessage}\n\n` +
-                  `Unable to verify TOR connection status.`
-          }
-        ]
-      };
+
+      return this.respond(
+        output,
+        `**TOR Connection Check Failed**\n\n` +
+        `**Error:** ${errorMessage}\n\n` +
+        `Unable to verify TOR connection status.`,
+        { error: { type: 'error', message: errorMessage } }
+      );
     }
   }
 
   /**
    * Get detailed TOR status
    */
-  public async getStatus(): Promise<{ content: Array<{ type: string; text: string }> }> {
+  public async getStatus(args: unknown = {}): Promise<ToolResult> {
+    const schema = z.object({
+      output: outputModeSchema.optional(),
+    });
+
+    const { output } = schema.parse(args ?? {});
+
     try {
       const status = await this.torClient.getStatus();
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**TOR Network Status**\n\n` +
-                  `**Connection:** ${status.isConnected ? '✅ Connected' : '❌ Disconnected'}\n` +
-                  `**Circuit:** ${status.circuitEstablished ? '✅ Established' : '❌ Not Established'}\n` +
-                  `**Current IP:** ${status.currentIP || 'Unknown'}\n` +
-                  `**TOR Version:** ${status.torVersion || 'Unknown'}\n` +
-                  `**Circuit Count:** ${status.circuitCount || 'Unknown'}\n` +
-                  `**Last Circuit Time:** ${status.lastCircuitTime ? status.lastCircuitTime.toISOString() : 'N/A'}\n\n` +
-                  `**Network Information:**\n` +
-                  `- Traffic is ${status.isConnected ? 'anonymized' : 'NOT anonymized'} through TOR\n` +
-                  `- ${status.circuitEstablished ? 'Ready for .onion services' : 'Cannot access .onion services'}\n` +
-                  `- Connection quality: ${this.getConnectionQuality(status)}`
-          }
-        ]
-      };
+      const nodePolicy = this.torClient.getNodePolicy();
+      const scheduler = this.torClient.getSchedulerStats();
+      const quality = this.getConnectionQuality(status);
+
+      return this.respond(
+        output,
+        `**TOR Network Status**\n\n` +
+        `**Connection:** ${status.isConnected ? '✅ Connected' : '❌ Disconnected'}\n` +
+        `**Circuit:** ${status.circuitEstablished ? '✅ Established' : '❌ Not Established'}\n` +
+        `**Current IP:** ${status.currentIP || 'Unknown'}${status.exitCheckedAt ? ` (${status.exitVerified ? 'verified' : 'NOT verified'} ${status.exitCheckedAt.toISOString()})` : ' (not verified yet; run check_tor_connection)'}\n` +
+        `**Verified By:** ${status.verificationMethod === 'endpoint' ? 'Check endpoint' : 'Control port'}\n` +
+        `**TOR Version:** ${status.torVersion || 'Unknown'}\n` +
+        `**Circuit Count:** ${status.circuitCount ?? 'Unknown'}\n` +
+        `**Last Circuit Time:** ${status.lastCircuitTime ? status.lastCircuitTime.toISOString() : 'N/A'}\n` +
+        `**Traffic:** ${status.bytesRead !== undefined ? `${status.bytesRead} bytes read, ${status.bytesWritten ?? 0} bytes written` : 'Unknown'}\n` +
+        `${status.lastWarning ? `**Last TOR Warning:** ${status.lastWarning}\n` : ''}` +
+        `**Transport:** ${status.transport ?? 'Unknown'}${status.activeBridge ? ` via bridge ${status.activeBridge}` : ''}\n` +
+        `**Node Policy:** ${nodePolicy ? describeNodePolicy(nodePolicy) : 'Managed by existing TOR configuration'}\n` +
+        `**Requests:** ${scheduler.active} in flight, ${scheduler.queued} queued\n\n` +
+        `**Network Information:**\n` +
+        `- Traffic is ${status.isConnected ? 'anonymized' : 'NOT anonymized'} through TOR\n` +
+        `- ${status.circuitEstablished ? 'Ready for .onion services' : 'Cannot access .onion services'}\n` +
+        `- Connection quality: ${quality}`,
+        {
+          connected: status.isConnected,
+          circuitEstablished: status.circuitEstablished,
+          currentIP: status.currentIP,
+          exitVerified: status.exitVerified,
+          exitCheckedAt: status.exitCheckedAt,
+          verificationMethod: status.verificationMethod,
+          torVersion: status.torVersion,
+          circuitCount: status.circuitCount,
+          lastCircuitTime: status.lastCircuitTime,
+          bytesRead: status.bytesRead,
+          bytesWritten: status.bytesWritten,
+          lastWarning: status.lastWarning,
+          transport: status.transport,
+          activeBridge: status.activeBridge,
+          nodePolicy: nodePolicy ?? undefined,
+          requests: { active: scheduler.active, queued: scheduler.queued },
+          quality,
+        }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**TOR Status Check Failed**\n\n` +
-                  `**Error:** ${errorMessage}`
-          }
-        ]
-      };
+
+      return this.respond(
+        output,
+        `**TOR Status Check Failed**\n\n` +
+        `**Error:** ${errorMessage}`,
+        { error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * Get TOR bootstrap progress
+   */
+  public async getBootstrap(args: unknown = {}): Promise<ToolResult> {
+    const schema = z.object({
+      output: outputModeSchema.optional(),
+    });
+
+    const { output } = schema.parse(args ?? {});
+
+    try {
+      const bootstrap = await this.torClient.getBootstrapStatus();
+
+      if (!bootstrap) {
+        return this.respond(
+          output,
+          `**TOR Bootstrap Status Unavailable**\n\n` +
+          `TOR has not reported any bootstrap progress. The control port may be unreachable.`,
+          { available: false }
+        );
+      }
+
+      const done = bootstrap.progress >= 100;
+
+      return this.respond(
+        output,
+        `**TOR Bootstrap: ${done ? '✅ Complete' : `⏳ ${bootstrap.progress}%`}**\n\n` +
+        `**Progress:** ${bootstrap.progress}%\n` +
+        `**Phase:** ${bootstrap.tag}\n` +
+        `**Summary:** ${bootstrap.summary || 'N/A'}\n` +
+        `${bootstrap.warning ? `**Warning:** ${bootstrap.warning}\n` : ''}` +
+        `${bootstrap.reason ? `**Reason:** ${bootstrap.reason}\n` : ''}` +
+        `${bootstrap.host ? `**Host:** ${bootstrap.host}\n` : ''}` +
+        `${bootstrap.recommendation ? `**Recommendation:** ${bootstrap.recommendation}\n` : ''}` +
+        `**Updated:** ${bootstrap.updatedAt.toISOString()}\n\n` +
+        `${done ? 'TOR is fully bootstrapped.' : bootstrap.warning
+          ? 'TOR is reporting problems. Check the system clock, firewall, and bridge configuration.'
+          : 'TOR is still bootstrapping.'}`,
+        { available: true, complete: done, ...bootstrap }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return this.respond(
+        output,
+        `**TOR Bootstrap Check Failed**\n\n` +
+        `**Error:** ${errorMessage}`,
+        { error: { type: 'error', message: errorMessage } }
+      );
     }
   }
 
   /**
    * Request new TOR circuit
    */
-  public async newCircuit(args: unknown): Promise<{ content: Array<{ type: string; text: string }> }> {
+  public async newCircuit(args: unknown): Promise<ToolResult> {
     const schema = z.object({
       reason: z.string().optional(),
+      output: outputModeSchema.optional(),
     });
 
-    const { reason } = schema.parse(args);
+    const { reason, output } = schema.parse(args);
 
     try {
-      const success = await this.torClient.newCircuit();
-      
-      if (success) {
-        const status = await this.torClient.getStatus();
-        
-        return {
-          content: [
-            {
-              type: "text",
-              text: `**New TOR Circuit Established ✅**\n\n` +
-                    `${reason ? `**Reason:** ${reason}\n` : ''}` +
-                    `**New IP:** ${status.currentIP || 'Checking...'}\n` +
-                    `**Circuit Time:** ${new Date().toISOString()}\n\n` +
-                    `Your anonymity has been refreshed with a new route through the TOR network.`
-            }
-          ]
-        };
-      } else {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `**Failed to Create New Circuit ❌**\n\n` +
-                    `Unable to establish a new TOR circuit. This could be due to:\n` +
-                    `- TOR control port access issues\n` +
-                    `- Network congestion\n` +
-                    `- TOR daemon configuration problems\n\n` +
-                    `Try again in a few moments.`
-            }
-          ]
-        };
+      const result = await this.torClient.newCircuit();
+
+      if (result.status === 'rate-limited') {
+        return this.respond(
+          output,
+          `**New TOR Circuit Rate Limited**\n\n` +
+          `${reason ? `**Reason:** ${reason}\n` : ''}` +
+          `**Retry After:** ${((result.retryAfter ?? 0) / 1000).toFixed(1)} s\n\n` +
+          `A new circuit was requested moments ago. TOR only acts on one NEWNYM signal every few seconds, ` +
+          `so no signal was sent. Requests already use the circuits from the last one.`,
+          { status: result.status, reason, retryAfter: result.retryAfter }
+        );
       }
+
+      const status = await this.torClient.getStatus();
+      const requestedAt = new Date();
+
+      return this.respond(
+        output,
+        `**${result.status === 'built' ? 'New TOR Circuit Established ✅' : 'New TOR Circuit Requested'}**\n\n` +
+        `${reason ? `**Reason:** ${reason}\n` : ''}` +
+        `${result.circuitId ? `**Circuit ID:** ${result.circuitId}\n` : ''}` +
+        `**New IP:** ${status.currentIP || 'Checking...'}\n` +
+        `**Circuit Time:** ${requestedAt.toISOString()}\n\n` +
+        `${result.status === 'built'
+          ? 'Your anonymity has been refreshed with a new route through the TOR network.'
+          : 'TOR accepted the request but has not reported a new circuit yet. New connections will not reuse old circuits.'}`,
+        { status: result.status, reason, circuitId: result.circuitId, ip: status.currentIP, requestedAt }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**Circuit Creation Failed**\n\n` +
-                  `**Error:** ${errorMessage}`
-          }
-        ]
+
+      return this.respond(
+        output,
+        `**Circuit Creation Failed**\n\n` +
+        `**Error:** ${errorMessage}`,
+        { reason, error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * List current TOR circuits
+   */
+  public async listCircuits(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      status: z.string().optional(),
+      purpose: z.string().optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { status, purpose, output } = schema.parse(args ?? {});
+
+    try {
+      const circuits = (await this.torClient.getCircuits()).filter(circuit =>
+        (!status || circuit.status === status.toUpperCase()) &&
+        (!purpose || circuit.purpose === purpose.toUpperCase())
+      );
+      const data = {
+        circuits: circuits.map(circuit => ({
+          circuitId: circuit.circuitId,
+          status: circuit.status,
+          purpose: circuit.purpose,
+          onionService: circuit.rendQuery ? `${circuit.rendQuery}.onion` : undefined,
+          buildFlags: circuit.buildFlags,
+          timeCreated: circuit.timeCreated,
+          path: circuit.path,
+        })),
       };
+
+      if (circuits.length === 0) {
+        return this.respond(
+          output,
+          `**No TOR Circuits Found**\n\n` +
+          `${status || purpose ? 'No circuits match the given filters.' : 'TOR has no open circuits right now.'}`,
+          data
+        );
+      }
+
+      return this.respond(
+        output,
+        `**TOR Circuits (${circuits.length})**\n\n` +
+        `${circuits.map(circuit => this.formatCircuit(circuit)).join('\n')}\n` +
+        `Use \`close_tor_circuit\` with a circuit ID to tear down a misbehaving circuit.`,
+        data
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return this.respond(
+        output,
+        `**Circuit Listing Failed**\n\n` +
+        `**Error:** ${errorMessage}\n\n` +
+        `Circuit inspection requires access to the TOR control port.`,
+        { error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * Close a specific TOR circuit
+   */
+  public async closeCircuit(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      circuitId: z.coerce.string().regex(/^\d+$/, 'Circuit ID must be numeric'),
+      ifUnused: z.boolean().default(false),
+      output: outputModeSchema.optional(),
+    });
+
+    const { circuitId, ifUnused, output } = schema.parse(args);
+
+    try {
+      await this.torClient.closeCircuit(circuitId, ifUnused);
+
+      return this.respond(
+        output,
+        `**TOR Circuit Closed ✅**\n\n` +
+        `**Circuit ID:** ${circuitId}\n` +
+        `${ifUnused ? '**Mode:** Closed only if unused\n' : ''}\n` +
+        `New streams will be attached to other circuits.`,
+        { circuitId, closed: true, ifUnused }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return this.respond(
+        output,
+        `**Failed to Close Circuit ❌**\n\n` +
+        `**Circuit ID:** ${circuitId}\n` +
+        `**Error:** ${errorMessage}`,
+        { circuitId, closed: false, ifUnused, error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * Update exit, entry and exclusion relay policy
+   */
+  public async setExitPolicy(args: unknown): Promise<ToolResult> {
+    const schema = nodePolicySchema.extend({
+      newCircuit: z.boolean().default(true),
+      output: outputModeSchema.optional(),
+    });
+
+    const parsed = schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const field = issue.path.join('.') || '(root)';
+      const requested = outputModeSchema.safeParse((args as { output?: unknown } | undefined)?.output);
+
+      return this.respond(
+        requested.success ? requested.data : undefined,
+        `**Invalid Exit Policy ❌**\n\n` +
+        `**Field:** ${field}\n` +
+        `**Error:** ${issue.message}\n\n` +
+        `Use ISO 3166-1 country codes (e.g. "de", "{ch}") or 40-digit relay fingerprints.`,
+        { error: { type: 'invalid', message: issue.message, field } }
+      );
+    }
+
+    const { newCircuit, output, ...update } = parsed.data;
+
+    try {
+      const policy = await this.torClient.setNodePolicy(update, newCircuit);
+
+      return this.respond(
+        output,
+        `**Exit Policy Updated ✅**\n\n` +
+        `**Policy:** ${describeNodePolicy(policy)}\n` +
+        `**New Circuits:** ${newCircuit ? 'Requested' : 'Not requested (applies to future circuits)'}\n\n` +
+        `${policy.strictNodes ? '' : 'StrictNodes is off, so TOR may still use other relays if none of the preferred ones are usable.'}`,
+        { policy, newCircuit }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return this.respond(
+        output,
+        `**Failed to Update Exit Policy ❌**\n\n` +
+        `**Error:** ${errorMessage}\n\n` +
+        `Applying a policy requires access to the TOR control port.`,
+        { error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * List stream isolation identities
+   */
+  public listIdentities(args: unknown = {}): ToolResult {
+    const schema = z.object({
+      output: outputModeSchema.optional(),
+    });
+
+    const { output } = schema.parse(args ?? {});
+    const identities = this.torClient.listIdentities();
+
+    if (identities.length === 0) {
+      return this.respond(
+        output,
+        `**No TOR Identities**\n\n` +
+        `Requests without an \`identity\` share the default circuit. ` +
+        `Pass \`identity\` to \`tor_request\` to isolate a session on its own circuits.`,
+        { identities }
+      );
+    }
+
+    const identityText = identities.map(identity =>
+      `**${identity.name}**\n` +
+      `- **Created:** ${identity.createdAt.toISOString()}\n` +
+      `- **Last Renewed:** ${identity.renewedAt ? identity.renewedAt.toISOString() : 'Never'}\n` +
+      `- **Last Used:** ${identity.lastUsed ? identity.lastUsed.toISOString() : 'Never'}\n` +
+      `- **Requests:** ${identity.requestCount}\n`
+    ).join('\n');
+
+    return this.respond(output, `**TOR Identities (${identities.length})**\n\n${identityText}`, { identities });
+  }
+
+  /**
+   * Renew or remove a single isolation identity
+   */
+  public async resetIdentity(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      identity: identitySchema,
+      remove: z.boolean().default(false),
+      output: outputModeSchema.optional(),
+    });
+
+    const { identity, remove, output } = schema.parse(args);
+
+    try {
+      if (remove) {
+        const removed = await this.torClient.removeIdentity(identity);
+
+        return this.respond(
+          output,
+          removed
+            ? `**TOR Identity Removed ✅**\n\n**Identity:** ${identity}\n\nIts circuits have been closed.`
+            : `**Unknown TOR Identity**\n\nNo identity named "${identity}" exists.`,
+          { identity, action: 'removed', found: removed }
+        );
+      }
+
+      const renewed = await this.torClient.renewIdentity(identity);
+      const renewedAt = renewed.renewedAt ?? new Date();
+
+      return this.respond(
+        output,
+        `**TOR Identity Renewed ✅**\n\n` +
+        `**Identity:** ${renewed.name}\n` +
+        `**Renewed:** ${renewedAt.toISOString()}\n\n` +
+        `Future requests for this identity use new circuits. Other identities are unaffected.`,
+        { identity: renewed.name, action: 'renewed', found: true, renewedAt }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return this.respond(
+        output,
+        `**Identity Reset Failed**\n\n` +
+        `**Identity:** ${identity}\n` +
+        `**Error:** ${errorMessage}`,
+        { identity, action: remove ? 'removed' : 'renewed', error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * Clear cached responses for one identity or all of them
+   */
+  public async clearCache(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      identity: identitySchema.optional(),
+      shared: z.boolean().default(false),
+      output: outputModeSchema.optional(),
+    });
+
+    const { identity, shared, output } = schema.parse(args);
+    const target = shared ? '' : identity;
+
+    try {
+      const removed = await this.torClient.clearCache(target);
+      const stats = this.torClient.getCacheStats();
+
+      return this.respond(
+        output,
+        `**TOR Cache Cleared ✅**\n\n` +
+        `**Scope:** ${this.describeScope(target)}\n` +
+        `**Responses Removed:** ${removed}\n` +
+        `${stats
+          ? `**Remaining:** ${stats.entries} response${stats.entries === 1 ? '' : 's'} (${formatBytes(stats.bytes)})`
+          : '**Note:** Response caching is disabled (cacheEntries is 0)'}`,
+        {
+          ...this.scopeData(target),
+          removed,
+          enabled: stats !== null,
+          remaining: stats ? { entries: stats.entries, bytes: stats.bytes } : undefined,
+        }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return this.respond(
+        output,
+        `**Cache Clear Failed**\n\n` +
+        `**Error:** ${errorMessage}`,
+        { ...this.scopeData(target), error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * List cookies held in the per-identity cookie jars
+   */
+  public listCookies(args: unknown): ToolResult {
+    const schema = z.object({
+      identity: identitySchema.optional(),
+      shared: z.boolean().default(false),
+      domain: z.string().min(1).optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { identity, shared, domain, output } = schema.parse(args);
+    const jars = this.torClient.listCookies(shared ? '' : identity, domain);
+    const data = {
+      jars: jars.map(jar => ({
+        identity: jar.identity || undefined,
+        cookies: jar.cookies,
+      })),
+    };
+
+    if (jars.length === 0) {
+      return this.respond(
+        output,
+        `**No Cookies Stored**\n\n` +
+        `Cookies are only kept for requests made with \`cookies: true\` (or with \`cookieJar\` enabled in the server configuration).`,
+        data
+      );
+    }
+
+    const jarText = jars.map(jar => {
+      const cookieLines = jar.cookies.map(cookie =>
+        `- \`${cookie.name}=${cookie.value}\`\n` +
+        `  ${cookie.hostOnly ? cookie.domain : `.${cookie.domain}`}${cookie.path}` +
+        `, ${cookie.expires ? `expires ${cookie.expires.toISOString()}` : 'session'}` +
+        `${cookie.secure ? ', Secure' : ''}${cookie.httpOnly ? ', HttpOnly' : ''}${cookie.sameSite ? `, SameSite=${cookie.sameSite}` : ''}`
+      );
+      return `**${jar.identity === '' ? 'Shared (default)' : jar.identity}** (${jar.cookies.length})\n${cookieLines.join('\n')}`;
+    }).join('\n\n');
+
+    return this.respond(output, `**Stored Cookies**\n\n${jarText}`, data);
+  }
+
+  /**
+   * Clear cookies for one identity or all of them, optionally only for a domain
+   */
+  public clearCookies(args: unknown): ToolResult {
+    const schema = z.object({
+      identity: identitySchema.optional(),
+      shared: z.boolean().default(false),
+      domain: z.string().min(1).optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { identity, shared, domain, output } = schema.parse(args);
+    const target = shared ? '' : identity;
+    const removed = this.torClient.clearCookies(target, domain);
+
+    return this.respond(
+      output,
+      `**Cookies Cleared ✅**\n\n` +
+      `**Scope:** ${this.describeScope(target)}\n` +
+      `${domain ? `**Domain:** ${domain}\n` : ''}` +
+      `**Cookies Removed:** ${removed}`,
+      { ...this.scopeData(target), domain, removed }
+    );
+  }
+
+  /**
+   * Validate and normalize a version 3 onion address without contacting it
+   */
+  public async validateOnionAddress(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      address: z.string().min(1).max(2048),
+      output: outputModeSchema.optional(),
+    });
+
+    const { address, output } = schema.parse(args);
+
+    let parsed: OnionAddress;
+    try {
+      parsed = parseOnionAddress(address);
+    } catch (error) {
+      if (!(error instanceof OnionAddressError)) {
+        throw error;
+      }
+      const lookalike = await this.findLookalikeService(error.host);
+
+      return this.respond(
+        output,
+        `**Invalid Onion Address ❌**\n\n` +
+        `**Input:** ${address}\n` +
+        `**Problem:** ${error.problem}\n` +
+        `**Error:** ${error.message}\n` +
+        `${lookalike ? `**Resembles:** ${lookalike.name} (${lookalike.url})\n` : ''}\n` +
+        `${lookalike
+          ? 'The address looks like a mistyped or altered copy of a known service. Use the known address instead.'
+          : 'TOR would refuse this address. Get the correct one from a source you trust.'}`,
+        {
+          input: address,
+          valid: false,
+          lookalike,
+          error: { type: 'invalid-onion', message: error.message, host: error.host, problem: error.problem },
+        }
+      );
     }
+
+    const host = parsed.subdomain ? `${parsed.subdomain}.${parsed.hostname}` : parsed.hostname;
+    const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(address.trim()) ? new URL(address.trim()).href : undefined;
+    const known = await this.registry.get(parsed.hostname);
+    const lookalike = known ? undefined : await this.findLookalikeService(parsed.hostname);
+
+    return this.respond(
+      output,
+      `**Valid Onion Address ✅**\n\n` +
+      `**Address:** ${parsed.hostname}\n` +
+      `${parsed.subdomain ? `**Host:** ${host}\n` : ''}` +
+      `${url ? `**URL:** ${url}\n` : ''}` +
+      `**Version:** ${parsed.version}\n` +
+      `**Public Key (ed25519):** ${parsed.publicKey.toString('hex')}\n` +
+      `**Checksum:** ${parsed.checksum}\n` +
+      `${known ? `**Known Service:** ${known.name}\n` : ''}` +
+      `${lookalike ? `**Warning:** Shares its prefix with ${lookalike.name} (${lookalike.url}) but is a different service\n` : ''}\n` +
+      `${lookalike
+        ? 'Phishing sites generate onion addresses that start like the real one. Make sure this is the service you meant.'
+        : 'The address is well formed. Whether the service is online is only known once it is requested.'}`,
+      {
+        input: address,
+        valid: true,
+        address: parsed.hostname,
+        host,
+        subdomain: parsed.subdomain,
+        url,
+        version: parsed.version,
+        publicKey: parsed.publicKey.toString('hex'),
+        checksum: parsed.checksum,
+        knownService: known ? { name: known.name, url: known.url } : undefined,
+        lookalike,
+      }
+    );
   }
 
   /**
-   * Search for onion services
+   * Search the onion service registry
    */
-  public async searchOnionServices(args: unknown): Promise<{ content: Array<{ type: string; text: string }> }> {
+  public async searchOnionServices(args: unknown): Promise<ToolResult> {
     const schema = z.object({
       query: z.string(),
+      category: z.string().min(1).max(50).optional(),
       limit: z.number().positive().default(10),
+      includeUnreachable: z.boolean().default(false),
+      output: outputModeSchema.optional(),
     });
 
-    const { query, limit } = schema.parse(args);
+    const { query, category, limit, includeUnreachable, output } = schema.parse(args);
 
     try {
-      const searchTerm = query.toLowerCase();
-      
-      // Filter known onion services based on query
-      const results = this.knownOnionServices.filter(service => 
-        service.name.toLowerCase().includes(searchTerm) ||
-        service.description.toLowerCase().includes(searchTerm) ||
-        service.category.toLowerCase().includes(searchTerm)
-      ).slice(0, limit);
-
-      if (results.length === 0) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `**No Onion Services Found**\n\n` +
-                    `No known onion services match "${query}".\n\n` +
-                    `**Available Categories:**\n` +
-                    `- search (search engines)\n` +
-                    `- news (journalism and news)\n` +
-                    `- social (social media)\n` +
-                    `- communication (messaging)\n` +
-                    `- privacy (privacy tools)\n` +
-                    `- security (security tools)\n\n` +
-                    `Try searching by category or service name.`
-            }
-          ]
-        };
+      const ranked = await Promise.all((await this.registry.search(query, { category })).map(async match => ({
+        ...match,
+        ...await this.prober.get(match.service.address),
+      })));
+
+      // Services down for weeks are hidden, and ones down now rank below the rest
+      const visible = ranked.filter(match => includeUnreachable || match.state !== 'unreachable');
+      const hidden = ranked.length - visible.length;
+      const matches = visible
+        .map(match => ({ ...match, score: match.state === 'up' || match.state === 'unknown' ? match.score : match.score / 2 }))
+        .sort((a, b) => b.score - a.score || HEALTH_RANK[a.state] - HEALTH_RANK[b.state])
+        .slice(0, limit);
+      const hiddenNote = hidden > 0
+        ? `**Hidden:** ${hidden} service(s) that have not answered for ${this.describeUnreachable()}; set includeUnreachable to show them.\n\n`
+        : '';
+
+      if (matches.length === 0) {
+        const categories = await this.registry.categories();
+
+        return this.respond(
+          output,
+          `**No Onion Services Found**\n\n` +
+          `No registered onion services match "${query}"${category ? ` in category "${category}"` : ''}.\n\n` +
+          `${hiddenNote}` +
+          `**Available Categories:**\n` +
+          `${categories.map(entry => `- ${entry.category} (${entry.count})`).join('\n') || '- (registry is empty)'}\n\n` +
+          `Try searching by category, tag or service name, or add a service with add_onion_service.`,
+          { query, category, results: [], hidden, categories }
+        );
       }
 
-      const resultText = results.map(service => 
-        `**${service.name}** ${service.verified ? '✅' : '⚠️'}\n` +
-        `- **URL:** ${service.url}\n` +
-        `- **Category:** ${service.category}\n` +
-        `- **Description:** ${service.description}\n`
+      const resultText = matches.map(({ service, state, health }) =>
+        `${this.formatOnionService(service)}- **Health:** ${this.describeHealth(state, health)}\n`
       ).join('\n');
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**Onion Services Found (${results.length})**\n\n` +
-                  `${resultText}\n` +
-                  `**Legend:**\n` +
-                  `✅ = Verified and trusted\n` +
-                  `⚠️ = Use with caution\n\n` +
-                  `**Note:** These are well-known legitimate onion services. Always verify URLs independently and exercise caution when accessing onion sites.`
-          }
-        ]
-      };
+      return this.respond(
+        output,
+        `**Onion Services Found (${matches.length})**\n\n` +
+        `${resultText}\n` +
+        `${hiddenNote}` +
+        `**Legend:**\n` +
+        `✅ = Verified and trusted\n` +
+        `⚠️ = Use with caution\n` +
+        `🟢 up · 🟠 down · 🔴 unreachable for weeks · ⚪ not probed yet\n\n` +
+        `**Note:** Entries come from the bundled list, configured registry files and services you added. Always verify URLs independently and exercise caution when accessing onion sites.`,
+        {
+          query,
+          category,
+          results: matches.map(({ service, score, state, health }) => ({
+            ...service,
+            score: Math.round(score * 100) / 100,
+            health: { state, ...health },
+          })),
+          hidden,
+        }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       
-      return {
-        content: [
-          {
-            type: "text",
-            text: `**Onion Service Search Failed**\n\n` +
-                  `**Error:** ${errorMessage}`
-          }
-        ]
-      };
+      return this.respond(
+        output,
+        `**Onion Service Search Failed**\n\n` +
+        `**Error:** ${errorMessage}`,
+        { query, error: { type: 'error', message: errorMessage } }
+      );
+    }
+  }
+
+  /**
+   * Check registered onion services through TOR now
+   */
+  public async probeOnionServices(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      addresses: z.array(z.string().min(1)).min(1).max(100).optional(),
+      category: z.string().min(1).max(50).optional(),
+      timeout: z.number().positive().optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { addresses, category, timeout, output } = schema.parse(args);
+
+    const services: OnionService[] = [];
+    const notFound: string[] = [];
+    if (addresses) {
+      for (const address of addresses) {
+        const service = await this.registry.get(address);
+        if (service) {
+          services.push(service);
+        } else {
+          notFound.push(address);
+        }
+      }
+    } else {
+      services.push(...(await this.registry.list()).filter(service => !category || service.category === category.toLowerCase()));
+    }
+
+    const notFoundText = notFound.length > 0 ? `**Not Registered:** ${notFound.join(', ')}\n\n` : '';
+    if (services.length === 0) {
+      return this.respond(
+        output,
+        `**No Onion Services To Probe**\n\n` +
+        `${notFoundText}` +
+        `Only registered services are probed. Use search_onion_services to find them, or add_onion_service to register one.`,
+        { results: [], notFound }
+      );
+    }
+
+    const outcomes = await this.prober.probe(services, timeout);
+    const counts = outcomes.reduce<Record<string, number>>((totals, outcome) => {
+      const key = outcome.skipped ? 'skipped' : outcome.state;
+      totals[key] = (totals[key] ?? 0) + 1;
+      return totals;
+    }, {});
+
+    const resultText = outcomes.map(({ service, state, health, skipped }) =>
+      `**${service.name}** ${skipped ? '⏭️ Skipped' : this.describeHealth(state, health)}\n` +
+      `- **URL:** ${service.url}\n` +
+      `${skipped ? `- **Reason:** ${skipped}\n` : ''}` +
+      `${!skipped && health?.up ? `- **HTTP Status:** ${health.httpStatus}\n- **Latency:** ${health.latency} ms\n` : ''}` +
+      `${!skipped && health?.failure ? `- **Failure:** ${health.failure.cause} (${health.failure.kind})\n` : ''}` +
+      `${!skipped && health?.tls ? `- **TLS:** ${this.describeTls(health.tls)}\n` : ''}`
+    ).join('\n');
+
+    return this.respond(
+      output,
+      `**Onion Service Probe Results**\n\n` +
+      `**Probed:** ${outcomes.length} (${Object.entries(counts).map(([state, count]) => `${count} ${state}`).join(', ')})\n\n` +
+      `${notFoundText}` +
+      `${resultText}\n` +
+      `Any HTTP answer counts as up. Skipped services were not reached for local reasons (TOR unavailable, policy or rate limits), so their recorded health is unchanged.`,
+      {
+        results: outcomes.map(({ service, state, health, skipped }) => ({
+          name: service.name,
+          url: service.url,
+          address: service.address,
+          state,
+          skipped,
+          health,
+        })),
+        notFound,
+      }
+    );
+  }
+
+  /**
+   * Add a service to the user's onion registry
+   */
+  public async addOnionService(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      name: z.string(),
+      url: z.string(),
+      description: z.string().optional(),
+      category: z.string(),
+      tags: z.array(z.string()).optional(),
+      verified: z.boolean().optional(),
+      source: z.string().optional(),
+      signature: z.string().optional(),
+      fingerprint: z.string().optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { output, ...fields } = schema.parse(args);
+
+    try {
+      const service = await this.registry.add(fields);
+
+      return this.respond(
+        output,
+        `**Onion Service Added**\n\n` +
+        `${this.formatOnionService(service)}\n` +
+        `Saved to the registry; it is included in search_onion_services from now on.`,
+        { service }
+      );
+    } catch (error) {
+      return this.registryFailure(output, 'Add', error);
+    }
+  }
+
+  /**
+   * Change fields of a registered onion service
+   */
+  public async updateOnionService(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      address: z.string().min(1),
+      name: z.string().optional(),
+      url: z.string().optional(),
+      description: z.string().optional(),
+      category: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+      verified: z.boolean().optional(),
+      signature: z.string().optional(),
+      fingerprint: z.string().optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { address, output, ...changes } = schema.parse(args);
+
+    try {
+      const service = await this.registry.update(address, changes);
+
+      return this.respond(
+        output,
+        `**Onion Service Updated**\n\n` +
+        `${this.formatOnionService(service)}`,
+        { service }
+      );
+    } catch (error) {
+      return this.registryFailure(output, 'Update', error);
+    }
+  }
+
+  /**
+   * Remove a service from the onion registry
+   */
+  public async removeOnionService(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      address: z.string().min(1),
+      output: outputModeSchema.optional(),
+    });
+
+    const { address, output } = schema.parse(args);
+
+    try {
+      const service = await this.registry.remove(address);
+
+      return this.respond(
+        output,
+        `**Onion Service Removed**\n\n` +
+        `**Name:** ${service.name}\n` +
+        `**URL:** ${service.url}\n` +
+        `**Source:** ${service.source}\n\n` +
+        `${service.source === 'user'
+          ? 'The entry was deleted from the registry.'
+          : 'The entry stays in its source file but is hidden from searches; add it again to restore it.'}`,
+        { service }
+      );
+    } catch (error) {
+      return this.registryFailure(output, 'Remove', error);
     }
   }
 
+  /**
+   * Publish a local port as a version 3 onion service
+   */
+  public async publishOnionService(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      targetPort: z.number().int().min(1).max(65535),
+      targetHost: z.string().min(1).optional(),
+      virtualPort: z.number().int().min(1).max(65535).optional(),
+      keyName: z.string().min(1).max(64).optional(),
+      clientKeys: z.array(z.string().min(1)).max(16).optional(),
+      generateClientKeys: z.number().int().min(0).max(16).optional(),
+      output: outputModeSchema.optional(),
+    });
+
+    const { output, ...options } = schema.parse(args);
+
+    try {
+      const { service, clientKeys, keyCreated } = await this.torClient.publishOnionService(options);
+      const keyText = clientKeys.map((key, index) =>
+        `  ${index + 1}. Private key: \`${key.privateKey}\`\n` +
+        `     Auth file line: \`${key.authFileLine}\``
+      ).join('\n');
+
+      return this.respond(
+        output,
+        `**Onion Service Published ✅**\n\n` +
+        `${this.formatPublishedService(service)}` +
+        `- **Address:** ${service.keyName
+          ? `Persistent (key "${service.keyName}" ${keyCreated ? 'created and saved' : 'reused'})`
+          : 'Ephemeral (the key was discarded; the address ends with this service)'}\n` +
+        `${clientKeys.length > 0 ? `\n**Generated Client Keys (not stored; shown only once):**\n${keyText}\n` : ''}\n` +
+        `Tor needs a minute or so to upload the service descriptor before the address is reachable. ` +
+        `The service runs until unpublish_onion_service removes it or this server shuts down.`,
+        { service, keyCreated, clientKeys }
+      );
+    } catch (error) {
+      return this.publishingFailure(output, 'Publish', error);
+    }
+  }
+
+  /**
+   * List the onion services published through the control port
+   */
+  public async listPublishedOnionServices(args: unknown = {}): Promise<ToolResult> {
+    const schema = z.object({
+      output: outputModeSchema.optional(),
+    });
+
+    const { output } = schema.parse(args ?? {});
+
+    try {
+      const { services, unmanaged } = await this.torClient.listPublishedOnionServices();
+      const unmanagedText = unmanaged.length > 0
+        ? `**Not Published By This Server (${unmanaged.length}):**\n${unmanaged.map(serviceId => `- ${serviceId}.onion`).join('\n')}\n\n`
+        : '';
+
+      if (services.length === 0) {
+        return this.respond(
+          output,
+          `**No Published Onion Services**\n\n` +
+          `${unmanagedText}` +
+          `Use publish_onion_service to expose a local port as an onion service.`,
+          { services, unmanaged }
+        );
+      }
+
+      return this.respond(
+        output,
+        `**Published Onion Services (${services.length})**\n\n` +
+        `${services.map(service => this.formatPublishedService(service)).join('\n')}\n` +
+        `${unmanagedText}`,
+        { services, unmanaged }
+      );
+    } catch (error) {
+      return this.publishingFailure(output, 'List', error);
+    }
+  }
+
+  /**
+   * Take a published onion service offline
+   */
+  public async unpublishOnionService(args: unknown): Promise<ToolResult> {
+    const schema = z.object({
+      address: z.string().min(1),
+      deleteKey: z.boolean().default(false),
+      output: outputModeSchema.optional(),
+    });
+
+    const { address, deleteKey, output } = schema.parse(args);
+
+    try {
+      const service = await this.torClient.unpublishOnionService(address, deleteKey);
+      const keyDeleted = deleteKey && service.keyName !== undefined;
+
+      return this.respond(
+        output,
+        `**Onion Service Removed ✅**\n\n` +
+        `${this.formatPublishedService(service)}\n` +
+        `${service.keyName === undefined
+          ? 'The address is gone for good.'
+          : keyDeleted
+            ? `The key "${service.keyName}" was deleted, so the address cannot be published again.`
+            : `The key "${service.keyName}" is kept; publish with that keyName to bring the same address back.`}`,
+        { service, keyDeleted }
+      );
+    } catch (error) {
+      return this.publishingFailure(output, 'Remove', error);
+    }
+  }
+
+  /**
+   * Format a registry entry for display
+   */
+  private formatOnionService(service: OnionService): string {
+    return `**${service.name}** ${service.verified ? '✅' : '⚠️'}\n` +
+      `- **URL:** ${service.url}\n` +
+      `- **Category:** ${service.category}\n` +
+      `- **Description:** ${service.description || '(none)'}\n` +
+      `${service.tags.length > 0 ? `- **Tags:** ${service.tags.join(', ')}\n` : ''}` +
+      `- **Source:** ${service.source}${service.addedAt ? ` (added ${service.addedAt})` : ''}\n` +
+      `${service.fingerprint ? `- **Signed By:** ${service.fingerprint}\n` : ''}`;
+  }
+
+  /**
+   * One-line health summary, e.g. "🟢 Up (HTTP 200 in 850 ms, checked ...)"
+   */
+  private describeHealth(state: HealthState, health?: ServiceHealth): string {
+    if (!health) {
+      return '⚪ Not probed yet';
+    }
+    if (state === 'up') {
+      return `🟢 Up (HTTP ${health.httpStatus} in ${health.latency} ms, checked ${health.checkedAt})`;
+    }
+    const lastSeen = health.lastSeen ? `last seen ${health.lastSeen}` : 'never seen up';
+    return state === 'unreachable'
+      ? `🔴 Unreachable (${lastSeen}; ${health.failures} failed probes)`
+      : `🟠 Down since ${health.downSince} (${lastSeen}; ${health.failures} failed probe${health.failures === 1 ? '' : 's'})`;
+  }
+
+  private describeTls(tls: TlsInfo): string {
+    const trust = tls.authorized ? 'trusted' : `not trusted: ${tls.authorizationError ?? 'unknown'}`;
+    return `${tls.protocol ?? 'TLS'}, ${tls.subject ?? 'no subject'}${tls.selfSigned ? ' (self-signed)' : ` issued by ${tls.issuer ?? 'unknown'}`}` +
+      `${tls.validTo ? `, valid until ${tls.validTo}` : ''} (${trust})`;
+  }
+
+  private describeUnreachable(): string {
+    const days = this.prober.unreachableAfterDays;
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Add a discovered onion alternative to the registry, unless registration is off
+   *
+   * Returns whether the service is now registered by this call ('added') or already was ('known').
+   */
+  private async registerOnionLocation(location: OnionLocation): Promise<'added' | 'known' | undefined> {
+    if (!this.onionLocation.register) {
+      return undefined;
+    }
+    if (await this.registry.get(location.onionOrigin)) {
+      return 'known';
+    }
+
+    const host = new URL(location.origin).hostname.replace(/^www\./, '');
+    try {
+      await this.registry.add({
+        name: host,
+        url: location.onionOrigin,
+        description: `Onion-Location of ${location.origin}`,
+        category: 'discovered',
+        tags: [host, 'onion-location'],
+        source: `onion-location:${location.origin}`,
+      });
+      return 'added';
+    } catch (error) {
+      console.error(`[TorTools] Could not register ${location.onionOrigin}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  private describeOnionLocation(location: OnionLocation, registered?: 'added' | 'known'): string {
+    const via = location.source === 'header' ? 'Onion-Location header' : 'onion-location meta tag';
+    const note = registered === 'added' ? '; added to the onion registry' : registered === 'known' ? '; already in the onion registry' : '';
+    return `${location.url} (advertised by ${location.origin} in its ${via}${note})`;
+  }
+
+  private describeOnionUpgrade(upgrade: OnionUpgrade): string {
+    return upgrade.fellBack
+      ? `${upgrade.to} failed (${upgrade.failure}), so ${upgrade.from} was requested instead`
+      : `Sent to the site's onion service ${upgrade.to}`;
+  }
+
+  private formatPublishedService(service: PublishedOnionService): string {
+    return `**${service.url}**\n` +
+      `- **Forwards To:** ${service.target} (onion port ${service.virtualPort})\n` +
+      `- **Client Authorization:** ${service.authorizedClients > 0
+        ? `Required (${service.authorizedClients} client${service.authorizedClients === 1 ? '' : 's'})`
+        : 'Not required; anyone with the address can connect'}\n` +
+      `- **Published:** ${service.publishedAt.toISOString()}\n`;
+  }
+
+  /**
+   * Describe a failed onion service publishing operation
+   */
+  private publishingFailure(output: OutputMode | undefined, action: string, error: unknown): ToolResult {
+    const message = error instanceof Error ? error.message : String(error);
+    const type = error instanceof OnionPublishError ? error.reason
+      : error instanceof OnionAddressError ? 'invalid'
+      : error instanceof TorControlError ? 'tor'
+      : 'error';
+    const hint = type === 'target-not-allowed' ? 'Only hosts listed in onionPublishing.allowedTargets in the config file can be published.'
+      : type === 'limit' ? 'Unpublish a service first, or raise onionPublishing.maxServices.'
+      : type === 'duplicate' || type === 'not-found' ? 'Use list_published_onion_services to see the running services.'
+      : type === 'invalid' ? 'Addresses must be valid version 3 onion addresses; client keys are base32 x25519 public keys.'
+      : type === 'key-file' ? 'Check the onion service key directory and its permissions.'
+      : 'Publishing onion services requires access to the TOR control port.';
+
+    return this.respond(
+      output,
+      `**${action} Onion Service Failed ❌**\n\n` +
+      `**Error:** ${message}\n\n` +
+      `${hint}`,
+      { error: { type, message, status: error instanceof TorControlError ? error.status : undefined } }
+    );
+  }
+
+  /**
+   * Describe a failed registry change
+   */
+  private registryFailure(output: OutputMode | undefined, action: string, error: unknown): ToolResult {
+    const message = error instanceof Error ? error.message : String(error);
+    const type = error instanceof OnionRegistryError ? error.reason : 'error';
+    const hint = type === 'duplicate' ? 'Use update_onion_service to change the existing entry.'
+      : type === 'not-found' ? 'Use search_onion_services to find the registered address.'
+      : type === 'invalid' ? 'URLs must be valid version 3 onion addresses; names and categories must not be empty.'
+      : 'The registry file could not be written. Check the data directory.';
+
+    return this.respond(
+      output,
+      `**${action} Onion Service Failed**\n\n` +
+      `**Error:** ${message}\n\n` +
+      `${hint}`,
+      { error: { type, message } }
+    );
+  }
+
+  /**
+   * Find a known service whose address starts like `host` without being the same service
+   *
+   * Vanity prefixes are cheap to brute force, so a shared prefix alone proves nothing.
+   */
+  private async findLookalikeService(host: string): Promise<{ name: string; url: string } | undefined> {
+    const address = host.replace(/\.onion\.?$/, '').split('.').pop() ?? '';
+    if (address.length < 8) {
+      return undefined;
+    }
+
+    const service = (await this.registry.list()).find(candidate => {
+      const known = candidate.address.replace(/\.onion$/, '');
+      return known !== address && known.slice(0, 8) === address.slice(0, 8);
+    });
+    return service ? { name: service.name, url: service.url } : undefined;
+  }
+
+  /**
+   * Build a result in the requested output mode, or the server's default one
+   */
+  private respond(output: OutputMode | undefined, text: string, data: StructuredData, extra: ToolContent[] = []): ToolResult {
+    return toolResult(output ?? this.outputMode, text, data, extra, this.outputMode !== 'text');
+  }
+
+  /**
+   * Describe which identities a cache or cookie operation covered
+   */
+  private describeScope(target?: string): string {
+    return target === undefined ? 'All identities' : target === '' ? 'Shared (default) identity' : `Identity "${target}"`;
+  }
+
+  private scopeData(target?: string): StructuredData {
+    return target === undefined ? { scope: 'all' } : target === '' ? { scope: 'shared' } : { scope: 'identity', identity: target };
+  }
+
   /**
    * Format HTTP headers for display
    */
@@ -404,13 +1679,175 @@ export class TorTools {
     return headerLines.length > 0 ? headerLines.join('\n') : '  (no headers)';
   }
 
+  /**
+   * Render a response body in the requested format; non-HTML bodies are always shown raw
+   */
+  private renderView(body: string, contentType: string | null, url: string, format: ResponseFormat): { text: string; rendered: boolean } {
+    if (format !== 'raw' && isHtml(contentType, body)) {
+      return { text: renderPage(extractPage(body, url, format === 'markdown'), format), rendered: true };
+    }
+    return { text: body, rendered: false };
+  }
+
+  /**
+   * Format the first page of a response, pointing at read_tor_response for the rest
+   */
+  private formatBody(view: { text: string; rendered: boolean }, format: ResponseFormat, responseId?: string, label?: string): string {
+    const page = view.text.slice(0, PAGE_SIZE);
+    const remaining = view.text.length - page.length;
+    const more = remaining <= 0 ? '' : responseId
+      ? `\n\n... (truncated; ${remaining} more characters. Use read_tor_response with responseId "${responseId}" and offset ${PAGE_SIZE} to continue)`
+      : '\n\n... (truncated)';
+
+    if (view.rendered) {
+      return `**${label ?? `Page Content (${format})`}:**\n${page}${more}`;
+    }
+
+    const note = format !== 'raw' ? ' (not HTML, shown raw)' : '';
+    return `**Response Body${note}:**\n\`\`\`\n${page}\n\`\`\`${more}`;
+  }
+
+  /**
+   * Structured form of the first page of a response body
+   */
+  private viewData(view: { text: string; rendered: boolean }, format: ResponseFormat): StructuredData {
+    return {
+      format: view.rendered ? format : 'raw',
+      text: view.text.slice(0, PAGE_SIZE),
+      totalLength: view.text.length,
+      truncated: view.text.length > PAGE_SIZE,
+    };
+  }
+
+  /**
+   * Return a non-text body as requested: a checksum only, base64, or a file in the download directory
+   */
+  private async deliverBinary(
+    data: Buffer,
+    detected: DetectedContent,
+    mode: 'summary' | 'base64' | 'save',
+    filename: string
+  ): Promise<{ text: string; sha256: string; base64?: string; savedTo?: string }> {
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    const checksum = `**SHA-256:** ${sha256}`;
+
+    if (mode === 'base64') {
+      if (data.length > MAX_BASE64_BYTES) {
+        return { text: `${checksum}\n**Base64:** Too large to return inline (limit ${formatBytes(MAX_BASE64_BYTES)}); use binary "save" instead.`, sha256 };
+      }
+      const base64 = data.toString('base64');
+      return { text: `${checksum}\n**Base64 (${detected.mimeType}):**\n\`\`\`\n${base64}\n\`\`\``, sha256, base64 };
+    }
+
+    if (mode === 'save') {
+      if (!this.downloadDirectory) {
+        return { text: `${checksum}\n**Saved:** No. Saving is disabled until a \`downloadDirectory\` is configured.`, sha256 };
+      }
+      const path = await saveDownload(this.downloadDirectory, filename, data);
+      return { text: `${checksum}\n**Saved To:** ${path}`, sha256, savedTo: path };
+    }
+
+    return { text: `${checksum}\nSet binary to "base64" or "save" to retrieve the file.`, sha256 };
+  }
+
+  /**
+   * Format a redirect chain for display
+   */
+  private formatRedirects(redirects: RedirectHop[]): string {
+    return redirects
+      .map((hop, index) => `  ${index + 1}. ${hop.status} ${hop.url} → ${hop.location}`)
+      .join('\n');
+  }
+
+  /**
+   * Describe what the response cache did for a request
+   */
+  private formatCacheInfo(cache: CacheInfo): string {
+    const age = cache.storedAt ? Math.round((Date.now() - cache.storedAt.getTime()) / 1000) : 0;
+    const until = cache.expiresAt && cache.expiresAt.getTime() > Date.now()
+      ? `fresh until ${cache.expiresAt.toISOString()}`
+      : 'needs revalidation';
+
+    switch (cache.status) {
+      case 'hit':
+        return `Hit (stored ${age}s ago, ${until})`;
+      case 'stale':
+        return `Stale copy (stored ${age}s ago, not revalidated)`;
+      case 'revalidated':
+        return `Revalidated (304 Not Modified, ${until})`;
+      case 'miss':
+      case 'bypass':
+        return `${cache.status === 'miss' ? 'Miss' : 'Bypassed'}${cache.stored ? `, stored (${until})` : ', not stored'}`;
+    }
+  }
+
+  /**
+   * List failed attempts, one per line
+   */
+  private formatAttempts(attempts: RequestAttempt[]): string {
+    return attempts
+      .map(({ attempt, failure, delay }) =>
+        `  ${attempt}. ${failure.cause}${failure.socksReply !== undefined ? ` [SOCKS ${describeSocksReply(failure.socksReply)}]` : ''}` +
+        `${delay !== undefined ? `, retried after ${(delay / 1000).toFixed(1)} s` : ''}`
+      )
+      .join('\n');
+  }
+
+  /**
+   * Describe why a request waited in the scheduler queue
+   */
+  private describeQueueReason(reason?: QueueReason): string {
+    switch (reason) {
+      case 'concurrency':
+        return 'too many requests in flight';
+      case 'host-concurrency':
+        return 'too many requests in flight to this host';
+      case 'rate-limit':
+        return 'rate limit for this host';
+      default:
+        return 'waiting for a free slot';
+    }
+  }
+
+  /**
+   * Format an exit IP verification result for display
+   */
+  private formatExitVerification(exit?: ExitVerification): string {
+    if (!exit) {
+      return 'Not verified';
+    }
+    if (!exit.ip) {
+      return `❌ Not verified (${exit.error ?? 'no check endpoint answered'})`;
+    }
+
+    const verdict = exit.isTor === false ? '❌ NOT a TOR exit' : exit.verified ? '✅ Verified' : '❌ Not verified';
+    return `${exit.ip} ${verdict} via ${exit.endpoint}${exit.cached ? ` (cached from ${exit.checkedAt.toISOString()})` : ''}`;
+  }
+
+  /**
+   * Format a circuit for display
+   */
+  private formatCircuit(circuit: TorCircuit): string {
+    const hops = circuit.path.map((hop, index) =>
+      `  ${index + 1}. ${hop.nickname ?? '(unnamed)'}${hop.fingerprint ? ` \`${hop.fingerprint}\`` : ''}`
+    );
+
+    return `**Circuit ${circuit.circuitId}** (${circuit.status})\n` +
+           `- **Purpose:** ${circuit.purpose ?? 'Unknown'}\n` +
+           `${circuit.rendQuery ? `- **Onion Service:** ${circuit.rendQuery}.onion\n` : ''}` +
+           `${circuit.buildFlags.length > 0 ? `- **Flags:** ${circuit.buildFlags.join(', ')}\n` : ''}` +
+           `- **Built:** ${circuit.timeCreated ? circuit.timeCreated.toISOString() : 'Unknown'}\n` +
+           `- **Hops:**\n${hops.length > 0 ? hops.join('\n') : '  (none yet)'}\n`;
+  }
+
   /**
    * Assess connection quality based on status
    */
-  private getConnectionQuality(status: any): string {
+  private getConnectionQuality(status: TorConnectionStatus): string {
     if (!status.isConnected) return 'Poor (No connection)';
     if (!status.circuitEstablished) return 'Fair (No circuit)';
-    if (status.currentIP) return 'Good (Fully anonymous)';
-    return 'Unknown';
+    if (status.exitVerified) return 'Good (Fully anonymous)';
+    if (status.exitCheckedAt) return 'Fair (Exit IP check failed)';
+    return 'Good (Exit IP not verified)';
   }
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+import type { Response } from 'node-fetch';
+import { isIP } from 'net';
+import { z } from 'zod';
+
+import { isOnionHost } from './redirects.js';
+
+/**
+ * Which destinations `TorNetworkClient.request` may contact
+ */
+export type UrlPolicy = z.infer<typeof urlPolicySchema>;
+
+export type PolicyRule =
+  | 'invalid-url'
+  | 'scheme'
+  | 'host-denied'
+  | 'host-not-allowed'
+  | 'onion-only'
+  | 'port'
+  | 'private-address'
+  | 'body-size';
+
+// Ports the Fetch standard refuses to connect to, because other protocols listen there
+export const DEFAULT_BLOCKED_PORTS = [
+  1, 7, 9, 11, 13, 15, 17, 19, 20, 21, 22, 23, 25, 37, 42, 43, 53, 69, 77, 79, 87, 95, 101, 102, 103, 104, 109,
+  110, 111, 113, 115, 117, 119, 123, 135, 137, 139, 143, 161, 179, 389, 427, 465, 512, 513, 514, 515, 526, 530,
+  531, 532, 540, 548, 554, 556, 563, 587, 601, 636, 989, 990, 993, 995, 1719, 1720, 1723, 2049, 3659, 4045,
+  4190, 5060, 5061, 6000, 6566, 6665, 6666, 6667, 6668, 6669, 6679, 6697, 10080,
+];
+
+export const hostPatternSchema = z.string().min(1).regex(/^[a-z0-9.*-]+$/i, 'Host patterns may only contain letters, digits, ".", "-" and "*"');
+
+export const urlPolicySchema = z.object({
+  allowedSchemes: z.array(z.enum(['http', 'https'])).min(1).default(['http', 'https']),
+  allowHosts: z.array(hostPatternSchema).default([]),
+  denyHosts: z.array(hostPatternSchema).default([]),
+  onionOnly: z.boolean().default(false),
+  blockedPorts: z.array(z.number().int().min(1).max(65535)).default(DEFAULT_BLOCKED_PORTS),
+  blockPrivateAddresses: z.boolean().default(true),
+  maxBodyBytes: z.number().int().positive().default(25 * 1024 * 1024),
+}).strict();
+
+/**
+ * Raised when a request or redirect breaks the URL policy
+ */
+export class UrlPolicyError extends Error {
+  constructor(message: string, public readonly rule: PolicyRule, public readonly url: string) {
+    super(message);
+    this.name = 'UrlPolicyError';
+  }
+}
+
+/**
+ * Check a destination against the policy, returning the parsed URL
+ *
+ * Deny patterns win over allow patterns. With no allow patterns every
+ * host not denied is allowed.
+ */
+export function checkUrl(url: string, policy: UrlPolicy): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UrlPolicyError(`Invalid URL: ${url}`, 'invalid-url', url);
+  }
+
+  const scheme = parsed.protocol.replace(/:$/, '');
+  if (!(policy.allowedSchemes as string[]).includes(scheme)) {
+    throw new UrlPolicyError(
+      `Scheme "${scheme}" is not allowed (allowed: ${policy.allowedSchemes.join(', ')})`,
+      'scheme',
+      url
+    );
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (policy.onionOnly && !isOnionHost(host)) {
+    throw new UrlPolicyError(`Only .onion services may be requested; ${host} is not one`, 'onion-only', url);
+  }
+
+  const denied = policy.denyHosts.find(pattern => hostMatches(host, pattern));
+  if (denied) {
+    throw new UrlPolicyError(`Host ${host} is denied by pattern "${denied}"`, 'host-denied', url);
+  }
+  if (policy.allowHosts.length > 0 && !policy.allowHosts.some(pattern => hostMatches(host, pattern))) {
+    throw new UrlPolicyError(`Host ${host} is not on the allow list`, 'host-not-allowed', url);
+  }
+
+  const port = Number(parsed.port || (parsed.protocol === 'https:' ? 443 : 80));
+  if (policy.blockedPorts.includes(port)) {
+    throw new UrlPolicyError(`Port ${port} is blocked`, 'port', url);
+  }
+
+  if (policy.blockPrivateAddresses && isPrivateHost(host)) {
+    throw new UrlPolicyError(`Refusing to request local or private address ${host}`, 'private-address', url);
+  }
+
+  return parsed;
+}
+
+/**
+ * Read a response body, failing once it grows past `maxBytes`
+ */
+export async function readBody(response: Response, url: string, maxBytes: number): Promise<Buffer> {
+  const tooLarge = (): UrlPolicyError =>
+    new UrlPolicyError(`Response body exceeds the ${maxBytes} byte limit`, 'body-size', url);
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    response.body?.resume();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  // Leaving the loop early destroys the stream, closing the connection
+  for await (const chunk of response.body) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    total += buffer.length;
+    if (total > maxBytes) {
+      throw tooLarge();
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Match a host against a pattern where "*" stands for any run of characters
+ */
+export function hostMatches(host: string, pattern: string): boolean {
+  const source = pattern.toLowerCase().split('*').map(part => part.replace(/[.-]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(host);
+}
+
+/**
+ * Loopback, private, link-local and other non-public literals and names
+ *
+ * Hostnames are resolved by the exit relay, so only literals and names
+ * that always mean "this machine" or "this network" can be judged here.
+ */
+export function isPrivateHost(host: string): boolean {
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+
+  switch (isIP(host)) {
+    case 4:
+      return isPrivateIPv4(host);
+    case 6:
+      return isPrivateIPv6(host);
+    default:
+      return false;
+  }
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224;
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  // IPv4 addresses embedded in IPv6: mapped (::ffff:0:0/96), the deprecated
+  // IPv4-compatible form (::/96) and NAT64 (64:ff9b::/96). The URL parser
+  // writes the IPv4 part in hex, e.g. ::ffff:7f00:1
+  const groups = expandIPv6(normalized);
+  if (groups && groups.slice(2, 5).every(group => group === 0) &&
+      ((groups[0] === 0 && groups[1] === 0 && (groups[5] === 0xffff || groups[5] === 0)) ||
+       (groups[0] === 0x64 && groups[1] === 0xff9b && groups[5] === 0))) {
+    return isPrivateIPv4(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+
+  return /^f[cd][0-9a-f]{2}:/.test(normalized) ||
+    /^fe[89ab][0-9a-f]:/.test(normalized) ||
+    /^ff[0-9a-f]{2}:/.test(normalized);
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if it cannot be read
+ */
+function expandIPv6(address: string): number[] | null {
+  let text = address;
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail, ...rest] = text.split('::');
+  if (rest.length > 0) {
+    return null;
+  }
+  const parse = (part: string | undefined): number[] => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const front = parse(head);
+  const back = parse(tail);
+  const groups = tail === undefined ? front : [...front, ...Array<number>(Math.max(0, 8 - front.length - back.length)).fill(0), ...back];
+  return groups.length === 8 && groups.every(group => group >= 0 && group <= 0xffff) ? groups : null;
+}